@@ -7,7 +7,7 @@ import {
   HttpException,
   HttpStatus,
 } from '@nestjs/common';
-import { InjectTracing, Trace } from 'src/lib/tracing/decorators';
+import { Trace } from 'src/lib/tracing/decorators';
 import { TracingService } from 'src/lib/tracing/tracing.service';
 
 interface Task {
@@ -26,7 +26,6 @@ interface Task {
  * y tareas en segundo plano
  */
 @Controller('tasks')
-@InjectTracing()
 export class AsyncTracingController {
   // Simulación de tareas en memoria
   private tasks: Task[] = [];
@@ -110,8 +109,8 @@ export class AsyncTracingController {
    */
   private async processTaskAsync(taskId: string, duration: number) {
     // Creamos un nuevo span para el procesamiento asíncrono
-    // Nota: En un caso real, este span debería estar vinculado al span padre
-    // a través de un contexto de propagación
+    // Al invocarse dentro de 'tasks.create' queda vinculado como span hijo
+    // gracias a la propagación del contexto activo
     this.tracingService.trace('tasks.process', async span => {
       span.setAttribute('task.id', taskId);
       span.setAttribute('task.duration', duration);
@@ -8,7 +8,7 @@ import {
   Body,
   Query,
 } from '@nestjs/common';
-import { InjectTracing, Trace } from 'src/lib/tracing/decorators';
+import { Trace } from 'src/lib/tracing/decorators';
 import { TracingService } from 'src/lib/tracing/tracing.service';
 
 interface Product {
@@ -22,7 +22,6 @@ interface Product {
  * Controlador básico que demuestra el uso de tracing en operaciones CRUD simples
  */
 @Controller('/basic/products')
-@InjectTracing()
 export class BasicTracingController {
   // Simulación de base de datos en memoria
   private products: Product[] = [
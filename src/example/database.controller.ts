@@ -10,7 +10,7 @@ import {
   HttpException,
   HttpStatus,
 } from '@nestjs/common';
-import { InjectTracing, Trace } from 'src/lib/tracing/decorators';
+import { Trace } from 'src/lib/tracing/decorators';
 import { TracingService } from 'src/lib/tracing/tracing.service';
 
 interface User {
@@ -26,7 +26,6 @@ interface User {
  * (simuladas para este ejemplo)
  */
 @Controller('users')
-@InjectTracing()
 export class DatabaseTracingController {
   // Simulación de base de datos en memoria
   private users: User[] = [
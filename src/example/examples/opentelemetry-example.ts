@@ -1,7 +1,7 @@
 import { Controller, Get, Injectable, Module } from '@nestjs/common';
 import { NestFactory } from '@nestjs/core';
 import { SpanKind } from '@opentelemetry/api';
-import { InjectTracing, Trace } from 'src/lib/tracing/decorators';
+import { Trace } from 'src/lib/tracing/decorators';
 import { TracingModule } from 'src/lib/tracing/tracing.module';
 import { TracingService } from 'src/lib/tracing/tracing.service';
 
@@ -9,7 +9,6 @@ import { TracingService } from 'src/lib/tracing/tracing.service';
  * Servicio de ejemplo que utiliza OpenTelemetry para rastrear operaciones
  */
 @Injectable()
-@InjectTracing()
 class ExampleService {
   constructor(private readonly tracingService: TracingService) {}
 
@@ -105,7 +104,6 @@ class ExampleService {
  * Controlador de ejemplo que utiliza el servicio con tracing
  */
 @Controller('example')
-@InjectTracing()
 class ExampleController {
   constructor(
     private readonly exampleService: ExampleService,
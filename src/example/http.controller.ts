@@ -5,23 +5,29 @@ import {
   Query,
   HttpException,
   HttpStatus,
+  OnModuleInit,
 } from '@nestjs/common';
 import { HttpService } from '@nestjs/axios';
 import { firstValueFrom } from 'rxjs';
-import { InjectTracing, Trace } from 'src/lib/tracing/decorators';
+import { Trace } from 'src/lib/tracing/decorators';
+import { registerAxiosTracing } from 'src/lib/tracing/propagation';
 import { TracingService } from 'src/lib/tracing/tracing.service';
 
 /**
  * Controlador que demuestra el uso de tracing con llamadas HTTP a servicios externos
  */
 @Controller('external')
-@InjectTracing()
-export class HttpTracingController {
+export class HttpTracingController implements OnModuleInit {
   constructor(
     private readonly tracingService: TracingService,
     private readonly httpService: HttpService,
   ) {}
 
+  onModuleInit() {
+    // Propagar el contexto de traza en todas las peticiones de HttpService
+    registerAxiosTracing(this.httpService.axiosRef, this.tracingService);
+  }
+
   /**
    * Obtiene datos de una API externa (simulada)
    */
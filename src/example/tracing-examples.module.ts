@@ -6,6 +6,7 @@ import { AsyncTracingController } from './async.controller';
 import { TracingModule } from 'src/lib/tracing/tracing.module';
 import { HttpModule } from '@nestjs/axios';
 import { PrometheusModule } from 'src/lib/prometheus';
+import { HealthModule } from 'src/lib/health';
 
 // setear variables de entorno para el ejemplo de tracing
 // OPCIONAL: Para ejecutar el ejemplo de tracing, se debe setear las siguientes variables de entorno:
@@ -33,6 +34,8 @@ process.env.OTEL_SAMPLING_RATIO='1.0'
     TracingModule.forRoot(), 
     HttpModule, 
     PrometheusModule,
+    // /health/live y /health/ready para los probes de k8s/app/deployment.yaml
+    HealthModule.forRoot(),
   ],
   controllers: [
     BasicTracingController,
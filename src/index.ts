@@ -5,5 +5,17 @@ export * from './lib/tracing/tracing.service';
 export * from './lib/tracing/types/index';
 export * from './lib/tracing/decorators';
 export * from './lib/tracing/interceptors';
+export * from './lib/tracing/exporters';
+export * from './lib/tracing/sampling';
+export * from './lib/tracing/redaction';
+export * from './lib/tracing/propagation';
+export * from './lib/tracing/metrics';
+export * from './lib/tracing/testing';
 
 export * from './lib/prometheus';
+
+export * from './lib/logging';
+
+export * from './lib/health';
+
+export * from './lib/observability';
@@ -0,0 +1,13 @@
+/**
+ * Token con el que se registran las opciones del módulo de salud
+ *
+ * @internal
+ */
+export const HEALTH_OPTIONS = Symbol('HEALTH_OPTIONS');
+
+/**
+ * Token con el que se registran los indicadores de salud personalizados
+ *
+ * @internal
+ */
+export const HEALTH_INDICATORS = Symbol('HEALTH_INDICATORS');
@@ -0,0 +1,35 @@
+import {
+  Controller,
+  Get,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { HealthService } from './health.service';
+import { HealthReport } from './interfaces';
+
+/**
+ * Endpoints de salud al estilo Kubernetes. Responden 200 cuando todos los
+ * checks están 'up' y 503 con el mismo cuerpo cuando alguno está 'down'.
+ * La ruta base se configura con la opción `path` de HealthModule.
+ */
+@Controller()
+export class HealthController {
+  constructor(private readonly healthService: HealthService) {}
+
+  @Get('live')
+  async live(): Promise<HealthReport> {
+    return this.toResponse(await this.healthService.checkLiveness());
+  }
+
+  @Get('ready')
+  async ready(): Promise<HealthReport> {
+    return this.toResponse(await this.healthService.checkReadiness());
+  }
+
+  private toResponse(report: HealthReport): HealthReport {
+    if (report.status === 'down') {
+      throw new ServiceUnavailableException(report);
+    }
+
+    return report;
+  }
+}
@@ -0,0 +1,62 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { HEALTH_INDICATORS, HEALTH_OPTIONS } from './constants';
+import { HealthController } from './health.controller';
+import { HealthService } from './health.service';
+import { HealthModuleAsyncOptions, HealthModuleOptions } from './interfaces';
+
+@Module({})
+export class HealthModule {
+  static forRoot(options: HealthModuleOptions = {}): DynamicModule {
+    return HealthModule.create(options, {
+      provide: HEALTH_OPTIONS,
+      useValue: options,
+    });
+  }
+
+  /**
+   * Registra el módulo resolviendo el resto de opciones de forma asíncrona
+   */
+  static forRootAsync(options: HealthModuleAsyncOptions): DynamicModule {
+    const { path, indicators } = options;
+
+    return {
+      ...HealthModule.create(options, {
+        provide: HEALTH_OPTIONS,
+        useFactory: async (...args: any[]): Promise<HealthModuleOptions> => ({
+          ...(await options.useFactory(...args)),
+          path,
+          indicators,
+        }),
+        inject: options.inject || [],
+      }),
+      imports: options.imports || [],
+    };
+  }
+
+  private static create(
+    options: Pick<HealthModuleOptions, 'path' | 'indicators'>,
+    optionsProvider: Provider,
+  ): DynamicModule {
+    const indicators = options.indicators || [];
+
+    Reflect.defineMetadata('path', options.path || '/health', HealthController);
+
+    const providers: Provider[] = [
+      optionsProvider,
+      ...indicators,
+      {
+        provide: HEALTH_INDICATORS,
+        useFactory: (...instances) => instances,
+        inject: indicators,
+      },
+      HealthService,
+    ];
+
+    return {
+      module: HealthModule,
+      controllers: [HealthController],
+      providers,
+      exports: [HealthService],
+    };
+  }
+}
@@ -0,0 +1,210 @@
+import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
+import * as http from 'http';
+import * as https from 'https';
+import { TracingService } from '../tracing/tracing.service';
+import { HEALTH_INDICATORS, HEALTH_OPTIONS } from './constants';
+import {
+  HealthCheckResult,
+  HealthIndicator,
+  HealthModuleOptions,
+  HealthReport,
+} from './interfaces';
+
+type HealthCheck = () => Promise<HealthCheckResult> | HealthCheckResult;
+
+/**
+ * Evalúa los checks de salud de la librería (SDK de OpenTelemetry,
+ * exportación de spans, Pushgateway) y los indicadores personalizados
+ */
+@Injectable()
+export class HealthService {
+  private readonly logger = new Logger(HealthService.name);
+  private readonly indicators: HealthIndicator[];
+
+  constructor(
+    @Inject(HEALTH_OPTIONS)
+    private readonly options: HealthModuleOptions,
+    @Optional()
+    @Inject(HEALTH_INDICATORS)
+    indicators?: HealthIndicator[],
+    @Optional() private readonly tracingService?: TracingService,
+  ) {
+    this.indicators = [...(indicators || [])];
+  }
+
+  /**
+   * Registra un indicador de salud en tiempo de ejecución
+   * @param indicator Indicador a registrar
+   */
+  registerIndicator(indicator: HealthIndicator): void {
+    this.indicators.push(indicator);
+  }
+
+  /**
+   * Evalúa el probe de liveness: el proceso responde y los indicadores
+   * de liveness personalizados están sanos
+   */
+  async checkLiveness(): Promise<HealthReport> {
+    return this.buildReport({
+      process: () => ({
+        status: 'up',
+        details: { uptime: process.uptime() },
+      }),
+      ...this.getIndicatorChecks('liveness'),
+    });
+  }
+
+  /**
+   * Evalúa el probe de readiness: el SDK de OpenTelemetry, la última
+   * exportación de spans (si `spanExportCheck` está habilitado), el
+   * Pushgateway y los indicadores personalizados
+   */
+  async checkReadiness(): Promise<HealthReport> {
+    const checks: Record<string, HealthCheck> = {};
+
+    if (this.tracingService) {
+      checks.tracing = () => this.checkTracing();
+      if (this.options.spanExportCheck) {
+        checks.span_export = () => this.checkSpanExport();
+      }
+    }
+    if (this.options.pushgatewayUrl) {
+      checks.pushgateway = () => this.checkPushgateway();
+    }
+
+    return this.buildReport({
+      ...checks,
+      ...this.getIndicatorChecks('readiness'),
+    });
+  }
+
+  private checkTracing(): HealthCheckResult {
+    const config = this.tracingService.getConfig();
+    if (!config.enabled) {
+      return { status: 'up', details: { enabled: false } };
+    }
+
+    return {
+      status: this.tracingService.isInitialized ? 'up' : 'down',
+      details: {
+        enabled: true,
+        initialized: this.tracingService.isInitialized,
+      },
+    };
+  }
+
+  private checkSpanExport(): HealthCheckResult {
+    const status = this.tracingService.getExportStatus();
+    if (!status) {
+      return { status: 'up', details: { lastExport: null } };
+    }
+
+    return {
+      status: status.success ? 'up' : 'down',
+      details: {
+        lastExport: status.timestamp.toISOString(),
+        spans: status.spans,
+        ...(status.exporter && { exporter: status.exporter }),
+        ...(status.error && { error: status.error }),
+      },
+    };
+  }
+
+  private checkPushgateway(): Promise<HealthCheckResult> {
+    // Relativa a la URL configurada para conservar su prefijo de ruta
+    // (p. ej. http://host/pushgateway)
+    const baseUrl = this.options.pushgatewayUrl;
+    const url = new URL(
+      '-/healthy',
+      baseUrl.endsWith('/') ? baseUrl : `${baseUrl}/`,
+    );
+    const client = url.protocol === 'https:' ? https : http;
+
+    return new Promise(resolve => {
+      const request = client.get(url, response => {
+        response.resume();
+        resolve({
+          status: response.statusCode < 400 ? 'up' : 'down',
+          details: { statusCode: response.statusCode },
+        });
+      });
+      request.on('error', error =>
+        resolve({ status: 'down', details: { error: error.message } }),
+      );
+      request.setTimeout(this.getTimeout(), () =>
+        request.destroy(new Error('Timeout')),
+      );
+    });
+  }
+
+  private getIndicatorChecks(
+    probe: 'liveness' | 'readiness',
+  ): Record<string, HealthCheck> {
+    return this.indicators
+      .filter(indicator =>
+        [probe, 'both'].includes(indicator.probe || 'readiness'),
+      )
+      .reduce(
+        (checks, indicator) => ({
+          ...checks,
+          [indicator.name]: () => indicator.check(),
+        }),
+        {},
+      );
+  }
+
+  /**
+   * Ejecuta los checks en paralelo con un tiempo máximo por check.
+   * Un check que lanza un error o excede el tiempo se marca como 'down'.
+   */
+  private async buildReport(
+    checks: Record<string, HealthCheck>,
+  ): Promise<HealthReport> {
+    const results: Record<string, HealthCheckResult> = {};
+
+    await Promise.all(
+      Object.entries(checks).map(async ([name, check]) => {
+        try {
+          results[name] = await this.withTimeout(check());
+        } catch (error) {
+          this.logger.warn(`Health check '${name}' fallido: ${error.message}`);
+          results[name] = { status: 'down', details: { error: error.message } };
+        }
+      }),
+    );
+
+    return {
+      status: Object.values(results).every(result => result.status === 'up')
+        ? 'up'
+        : 'down',
+      timestamp: new Date().toISOString(),
+      checks: results,
+    };
+  }
+
+  private withTimeout(
+    result: Promise<HealthCheckResult> | HealthCheckResult,
+  ): Promise<HealthCheckResult> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(
+        () => reject(new Error('Timeout')),
+        this.getTimeout(),
+      );
+
+      Promise.resolve(result).then(
+        value => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      );
+    });
+  }
+
+  private getTimeout(): number {
+    return this.options.timeoutMillis || 3000;
+  }
+}
@@ -0,0 +1,8 @@
+/**
+ * Exportaciones del módulo de salud
+ */
+
+export * from './health.controller';
+export * from './health.module';
+export * from './health.service';
+export * from './interfaces';
@@ -0,0 +1,97 @@
+import { ModuleMetadata, Type } from '@nestjs/common';
+
+/**
+ * Estado de un check de salud
+ */
+export type HealthStatus = 'up' | 'down';
+
+/**
+ * Resultado de un check de salud individual
+ */
+export interface HealthCheckResult {
+  status: HealthStatus;
+
+  /**
+   * Información adicional del check (latencia, errores, versión...)
+   */
+  details?: Record<string, any>;
+}
+
+/**
+ * Respuesta de los endpoints de salud
+ */
+export interface HealthReport {
+  status: HealthStatus;
+  timestamp: string;
+  checks: Record<string, HealthCheckResult>;
+}
+
+/**
+ * Indicador de salud personalizado
+ */
+export interface HealthIndicator {
+  /**
+   * Nombre con el que aparece el check en la respuesta
+   */
+  readonly name: string;
+
+  /**
+   * Probe en el que se evalúa el indicador
+   * @default 'readiness'
+   */
+  readonly probe?: 'liveness' | 'readiness' | 'both';
+
+  check(): Promise<HealthCheckResult> | HealthCheckResult;
+}
+
+/**
+ * Opciones del módulo de salud
+ */
+export interface HealthModuleOptions {
+  /**
+   * Ruta base de los endpoints de salud
+   * @default /health
+   */
+  path?: string;
+
+  /**
+   * Indicadores personalizados, resueltos mediante inyección de dependencias
+   */
+  indicators?: Type<HealthIndicator>[];
+
+  /**
+   * URL del Pushgateway cuya disponibilidad se comprueba en el probe de readiness
+   */
+  pushgatewayUrl?: string;
+
+  /**
+   * Tiempo máximo en ms para cada check
+   * @default 3000
+   */
+  timeoutMillis?: number;
+
+  /**
+   * Incluye en el probe de readiness el resultado de la última exportación
+   * de spans. Deshabilitado por defecto: una caída del colector sacaría del
+   * Service a todos los pods.
+   * @default false
+   */
+  spanExportCheck?: boolean;
+}
+
+/**
+ * Opciones para registrar el módulo de salud de forma asíncrona. La ruta y
+ * los indicadores se indican de forma estática porque determinan el
+ * controlador y los proveedores registrados.
+ */
+export interface HealthModuleAsyncOptions
+  extends Pick<HealthModuleOptions, 'path' | 'indicators'>,
+    Pick<ModuleMetadata, 'imports'> {
+  useFactory: (
+    ...args: any[]
+  ) =>
+    | Promise<Omit<HealthModuleOptions, 'path' | 'indicators'>>
+    | Omit<HealthModuleOptions, 'path' | 'indicators'>;
+
+  inject?: any[];
+}
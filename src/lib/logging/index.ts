@@ -0,0 +1,7 @@
+/**
+ * Exportaciones del módulo de logging estructurado
+ */
+
+export * from './logging.config';
+export * from './logging.module';
+export * from './structured-logger.service';
@@ -0,0 +1,28 @@
+import { LogLevel } from '@nestjs/common';
+import { registerAs } from '@nestjs/config';
+
+export interface LoggingConfig {
+  // Nivel mínimo de log a escribir
+  level: LogLevel;
+
+  // Formato de salida: JSON por línea o legible para desarrollo
+  format: 'json' | 'pretty';
+
+  // Añadir trace_id y span_id del contexto activo de OpenTelemetry
+  includeTraceContext: boolean;
+
+  // Datos del servicio; si no se definen se toman de TracingConfig
+  serviceName?: string;
+  environment?: string;
+
+  // Claves de baggage añadidas a cada registro; por defecto las de TracingConfig
+  baggageKeys?: string[];
+}
+
+export default registerAs('logging', () => ({
+  level: process.env.LOG_LEVEL || 'log',
+  format:
+    process.env.LOG_FORMAT ||
+    (process.env.NODE_ENV === 'production' ? 'json' : 'pretty'),
+  includeTraceContext: process.env.LOG_INCLUDE_TRACE_CONTEXT !== 'false',
+}));
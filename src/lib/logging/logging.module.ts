@@ -0,0 +1,49 @@
+import { DynamicModule, Global, Module, ModuleMetadata } from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import loggingConfig from './logging.config';
+import { LoggingConfig } from './logging.config';
+import { StructuredLogger } from './structured-logger.service';
+
+@Global()
+@Module({})
+export class LoggingModule {
+  static forRoot(options?: Partial<LoggingConfig>): DynamicModule {
+    return {
+      module: LoggingModule,
+      imports: [ConfigModule.forFeature(loggingConfig)],
+      providers: [
+        {
+          provide: 'LOGGING_OPTIONS',
+          useValue: options || {},
+        },
+        StructuredLogger,
+      ],
+      exports: [StructuredLogger],
+    };
+  }
+
+  static forRootAsync(options: {
+    imports?: ModuleMetadata['imports'];
+    useFactory: (
+      ...args: any[]
+    ) => Promise<Partial<LoggingConfig>> | Partial<LoggingConfig>;
+    inject?: any[];
+  }): DynamicModule {
+    return {
+      module: LoggingModule,
+      imports: [
+        ConfigModule.forFeature(loggingConfig),
+        ...(options.imports || []),
+      ],
+      providers: [
+        {
+          provide: 'LOGGING_OPTIONS',
+          useFactory: options.useFactory,
+          inject: options.inject || [],
+        },
+        StructuredLogger,
+      ],
+      exports: [StructuredLogger],
+    };
+  }
+}
@@ -0,0 +1,254 @@
+import {
+  Inject,
+  Injectable,
+  LoggerService,
+  LogLevel,
+  Optional,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { context, isSpanContextValid, trace } from '@opentelemetry/api';
+import { getBaggageAttributes } from '../tracing/propagation';
+import { RedactionPolicy } from '../tracing/redaction';
+import { TracingConfig } from '../tracing/tracing.config';
+import { TracingService } from '../tracing/tracing.service';
+import { LoggingConfig } from './logging.config';
+
+/**
+ * Orden de severidad de los niveles de log de NestJS
+ */
+const LOG_LEVEL_ORDER: LogLevel[] = [
+  'verbose',
+  'debug',
+  'log',
+  'warn',
+  'error',
+  'fatal',
+];
+
+/**
+ * Nombre del nivel en la salida estructurada (compatible con Loki/Grafana)
+ */
+const LOG_LEVEL_LABELS: Record<LogLevel, string> = {
+  verbose: 'trace',
+  debug: 'debug',
+  log: 'info',
+  warn: 'warn',
+  error: 'error',
+  fatal: 'fatal',
+};
+
+/**
+ * Logger estructurado que implementa LoggerService de NestJS.
+ * Escribe una línea JSON por registro con el contexto de la traza activa
+ * (trace_id, span_id) y los datos del servicio, de forma que los logs
+ * recogidos por Loki puedan enlazarse con las trazas de Jaeger.
+ */
+@Injectable()
+export class StructuredLogger implements LoggerService {
+  private readonly config: LoggingConfig;
+  private readonly redactionPolicy: RedactionPolicy;
+  private levels: LogLevel[];
+
+  constructor(
+    @Optional() private readonly configService?: ConfigService,
+    @Optional() private readonly tracingService?: TracingService,
+    @Optional()
+    @Inject('LOGGING_OPTIONS')
+    private readonly options?: Partial<LoggingConfig>,
+  ) {
+    this.config = this.getConfig();
+    // El baggage se redacta con la misma política que los spans
+    this.redactionPolicy =
+      this.tracingService?.getRedactionPolicy() ?? new RedactionPolicy();
+    this.levels = LOG_LEVEL_ORDER.slice(
+      Math.max(LOG_LEVEL_ORDER.indexOf(this.config.level), 0),
+    );
+  }
+
+  private getConfig(): LoggingConfig {
+    const defaultConfig = this.configService?.get<LoggingConfig>('logging');
+    const tracingConfig =
+      this.tracingService?.getConfig() ??
+      this.configService?.get<TracingConfig>('tracing');
+
+    return {
+      level: 'log',
+      format: 'json',
+      includeTraceContext: true,
+      serviceName: tracingConfig?.serviceName,
+      environment: tracingConfig?.environment,
+      baggageKeys: tracingConfig?.baggageKeys,
+      ...defaultConfig,
+      ...this.options,
+    } as LoggingConfig;
+  }
+
+  log(message: any, ...optionalParams: any[]) {
+    this.write('log', message, optionalParams);
+  }
+
+  error(message: any, ...optionalParams: any[]) {
+    this.write('error', message, optionalParams);
+  }
+
+  warn(message: any, ...optionalParams: any[]) {
+    this.write('warn', message, optionalParams);
+  }
+
+  debug(message: any, ...optionalParams: any[]) {
+    this.write('debug', message, optionalParams);
+  }
+
+  verbose(message: any, ...optionalParams: any[]) {
+    this.write('verbose', message, optionalParams);
+  }
+
+  fatal(message: any, ...optionalParams: any[]) {
+    this.write('fatal', message, optionalParams);
+  }
+
+  setLogLevels(levels: LogLevel[]) {
+    this.levels = levels;
+  }
+
+  /**
+   * Indica si un nivel de log está habilitado
+   * @param level Nivel a comprobar
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return this.levels.includes(level);
+  }
+
+  private write(level: LogLevel, message: any, optionalParams: any[]) {
+    if (!this.isLevelEnabled(level)) {
+      return;
+    }
+
+    const record = this.buildRecord(level, message, optionalParams);
+    const line =
+      this.config.format === 'pretty'
+        ? this.formatPretty(record)
+        : JSON.stringify(record);
+
+    const stream =
+      level === 'error' || level === 'fatal' ? process.stderr : process.stdout;
+    stream.write(`${line}\n`);
+  }
+
+  /**
+   * Construye el registro estructurado a partir de los argumentos
+   * recibidos, siguiendo la convención de ConsoleLogger:
+   * el último parámetro de tipo string es el contexto y, para errores,
+   * el anterior es el stack. Los campos de un mensaje de tipo objeto no
+   * sobrescriben los campos reservados (timestamp, level, trace_id...)
+   */
+  private buildRecord(
+    level: LogLevel,
+    message: any,
+    optionalParams: any[],
+  ): Record<string, any> {
+    const params = [...optionalParams];
+    let logContext: string | undefined;
+    let stack: string | undefined;
+
+    if (params.length > 0 && typeof params[params.length - 1] === 'string') {
+      logContext = params.pop();
+    }
+    if (
+      (level === 'error' || level === 'fatal') &&
+      params.length > 0 &&
+      (typeof params[params.length - 1] === 'string' ||
+        params[params.length - 1] === undefined)
+    ) {
+      stack = params.pop();
+    }
+
+    const record: Record<string, any> =
+      message !== null &&
+      typeof message === 'object' &&
+      !(message instanceof Error)
+        ? { ...message }
+        : {};
+
+    if (this.config.baggageKeys?.length) {
+      Object.assign(
+        record,
+        this.redactionPolicy.redact(
+          getBaggageAttributes(context.active(), this.config.baggageKeys),
+        ),
+      );
+    }
+
+    record.timestamp = new Date().toISOString();
+    record.level = LOG_LEVEL_LABELS[level];
+
+    if (message instanceof Error) {
+      record.message = message.message;
+      stack = stack || message.stack;
+    } else if (message === null || typeof message !== 'object') {
+      record.message = message;
+    }
+
+    if (logContext) {
+      record.context = logContext;
+    }
+    if (stack) {
+      record.stack = stack;
+    }
+    if (params.length > 0) {
+      record.params = params;
+    }
+    if (this.config.serviceName) {
+      record['service.name'] = this.config.serviceName;
+    }
+    if (this.config.environment) {
+      record['deployment.environment'] = this.config.environment;
+    }
+
+    if (this.config.includeTraceContext) {
+      const spanContext = trace.getSpan(context.active())?.spanContext();
+      if (spanContext && isSpanContextValid(spanContext)) {
+        record.trace_id = spanContext.traceId;
+        record.span_id = spanContext.spanId;
+      }
+    }
+
+    // timestamp y level primero en la línea
+    return { timestamp: record.timestamp, level: record.level, ...record };
+  }
+
+  private formatPretty(record: Record<string, any>): string {
+    const {
+      timestamp,
+      level,
+      message,
+      context: logContext,
+      stack,
+      trace_id,
+      span_id,
+      'service.name': serviceName,
+      ...extra
+    } = record;
+    delete extra['deployment.environment'];
+
+    let line = `${timestamp} ${String(level).toUpperCase().padEnd(5)}`;
+    if (serviceName) {
+      line += ` [${serviceName}]`;
+    }
+    if (logContext) {
+      line += ` [${logContext}]`;
+    }
+    line += ` ${message ?? ''}`;
+    if (Object.keys(extra).length > 0) {
+      line += ` ${JSON.stringify(extra)}`;
+    }
+    if (trace_id) {
+      line += ` trace_id=${trace_id} span_id=${span_id}`;
+    }
+    if (stack) {
+      line += `\n${stack}`;
+    }
+
+    return line;
+  }
+}
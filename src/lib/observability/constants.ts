@@ -0,0 +1,6 @@
+/**
+ * Token con el que se registran las opciones resueltas del módulo de observabilidad
+ *
+ * @internal
+ */
+export const OBSERVABILITY_OPTIONS = Symbol('OBSERVABILITY_OPTIONS');
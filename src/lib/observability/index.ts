@@ -0,0 +1,8 @@
+/**
+ * Exportaciones del módulo de observabilidad unificado
+ */
+
+export * from './interfaces';
+export * from './observability.metrics';
+export * from './observability.module';
+export * from './observability.service';
@@ -0,0 +1,136 @@
+import { ModuleMetadata } from '@nestjs/common';
+import { TracingConfig } from '../tracing/tracing.config';
+import { PrometheusOptions } from '../prometheus/interfaces';
+import { LoggingConfig } from '../logging/logging.config';
+import { HealthModuleOptions } from '../health/interfaces';
+
+/**
+ * Opciones de métricas del módulo de observabilidad.
+ * Se traducen a las opciones de {@link PrometheusOptions}.
+ */
+export interface ObservabilityMetricsOptions
+  extends Omit<PrometheusOptions, 'global'> {
+  /**
+   * Si se registra el módulo de Prometheus y el endpoint de métricas
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Opciones de trazas del módulo de observabilidad.
+ * Los datos del servicio se toman de las opciones raíz.
+ */
+export type ObservabilityTracingOptions = Partial<
+  Omit<TracingConfig, 'serviceName' | 'serviceVersion' | 'environment'>
+>;
+
+/**
+ * Opciones de logs del módulo de observabilidad.
+ * Los datos del servicio se toman de las opciones raíz.
+ */
+export type ObservabilityLoggingOptions = Partial<
+  Omit<LoggingConfig, 'serviceName' | 'environment'>
+>;
+
+/**
+ * Opciones de los endpoints de salud del módulo de observabilidad.
+ * Si no se indica, la URL del Pushgateway se toma de las opciones de métricas.
+ */
+export interface ObservabilityHealthOptions extends HealthModuleOptions {
+  /**
+   * Si se registran los endpoints de salud
+   * @default true
+   */
+  enabled?: boolean;
+}
+
+/**
+ * Opciones del módulo de observabilidad unificado
+ */
+export interface ObservabilityOptions {
+  /**
+   * Nombre del servicio compartido por trazas, métricas y logs
+   */
+  serviceName?: string;
+
+  /**
+   * Versión del servicio
+   */
+  serviceVersion?: string;
+
+  /**
+   * Entorno de despliegue (development, staging, production...)
+   */
+  environment?: string;
+
+  /**
+   * Registra el módulo como global
+   * @default true
+   */
+  global?: boolean;
+
+  /**
+   * Configuración de métricas (Prometheus)
+   */
+  metrics?: ObservabilityMetricsOptions;
+
+  /**
+   * Configuración de trazas (OpenTelemetry)
+   */
+  tracing?: ObservabilityTracingOptions;
+
+  /**
+   * Configuración de logs estructurados
+   */
+  logging?: ObservabilityLoggingOptions;
+
+  /**
+   * Endpoints de salud (/health/live y /health/ready).
+   * Solo se registran si se proporciona esta opción.
+   */
+  health?: ObservabilityHealthOptions;
+}
+
+/**
+ * Opciones resueltas por la factoría de
+ * {@link ObservabilityModule.registerAsync}
+ */
+export type ObservabilityAsyncResolvedOptions = Omit<
+  ObservabilityOptions,
+  'global' | 'health'
+>;
+
+/**
+ * Opciones para registrar el módulo de observabilidad de forma asíncrona
+ */
+export interface ObservabilityAsyncOptions
+  extends Pick<ModuleMetadata, 'imports'> {
+  /**
+   * Registra el módulo como global
+   * @default true
+   */
+  global?: boolean;
+
+  /**
+   * Endpoints de salud. Se configuran de forma estática porque determinan
+   * los controladores registrados.
+   */
+  health?: ObservabilityHealthOptions;
+
+  /**
+   * Con `enabled: false` no se registran el módulo de Prometheus ni el
+   * endpoint de métricas. Se configura de forma estática porque determina
+   * los módulos registrados; `metrics.enabled` en la factoría deshabilita
+   * las métricas de un módulo ya registrado.
+   */
+  metrics?: Pick<ObservabilityMetricsOptions, 'enabled'>;
+
+  useFactory: (
+    ...args: any[]
+  ) =>
+    | Promise<ObservabilityAsyncResolvedOptions>
+    | ObservabilityAsyncResolvedOptions;
+
+  inject?: any[];
+}
@@ -0,0 +1,70 @@
+import * as client from 'prom-client';
+import { getOrCreateMetric } from '../prometheus/metrics';
+import { PrometheusOptions } from '../prometheus/interfaces';
+
+/**
+ * Acceso a métricas de Prometheus por nombre, respetando el prefijo
+ * configurado en el módulo de observabilidad.
+ */
+export class ObservabilityMetrics {
+  constructor(private readonly prometheusOptions?: PrometheusOptions) {}
+
+  /**
+   * Obtiene (o crea) un contador
+   * @param name Nombre de la métrica
+   * @param help Descripción de la métrica
+   * @param labelNames Nombres de las etiquetas
+   */
+  getCounter(
+    name: string,
+    help?: string,
+    labelNames: string[] = [],
+  ): client.Counter<string> {
+    return getOrCreateMetric(
+      'Counter',
+      { name, help: help || name, labelNames },
+      this.prometheusOptions,
+      'ObservabilityModule',
+    ) as client.Counter<string>;
+  }
+
+  /**
+   * Obtiene (o crea) un gauge
+   * @param name Nombre de la métrica
+   * @param help Descripción de la métrica
+   * @param labelNames Nombres de las etiquetas
+   */
+  getGauge(
+    name: string,
+    help?: string,
+    labelNames: string[] = [],
+  ): client.Gauge<string> {
+    return getOrCreateMetric(
+      'Gauge',
+      { name, help: help || name, labelNames },
+      this.prometheusOptions,
+      'ObservabilityModule',
+    ) as client.Gauge<string>;
+  }
+
+  /**
+   * Obtiene (o crea) un histograma
+   * @param name Nombre de la métrica
+   * @param help Descripción de la métrica
+   * @param labelNames Nombres de las etiquetas
+   * @param buckets Límites de los buckets del histograma
+   */
+  getHistogram(
+    name: string,
+    help?: string,
+    labelNames: string[] = [],
+    buckets?: number[],
+  ): client.Histogram<string> {
+    return getOrCreateMetric(
+      'Histogram',
+      { name, help: help || name, labelNames, ...(buckets && { buckets }) },
+      this.prometheusOptions,
+      'ObservabilityModule',
+    ) as client.Histogram<string>;
+  }
+}
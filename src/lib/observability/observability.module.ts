@@ -0,0 +1,261 @@
+import { DynamicModule, Module, Provider } from '@nestjs/common';
+import { TracingModule } from '../tracing/tracing.module';
+import { TracingConfig } from '../tracing/tracing.config';
+import { PrometheusModule } from '../prometheus/module';
+import { PrometheusOptions } from '../prometheus/interfaces';
+import { LoggingModule } from '../logging/logging.module';
+import { LoggingConfig } from '../logging/logging.config';
+import { HealthModule } from '../health/health.module';
+import { OBSERVABILITY_OPTIONS } from './constants';
+import {
+  ObservabilityAsyncOptions,
+  ObservabilityHealthOptions,
+  ObservabilityOptions,
+} from './interfaces';
+import { ObservabilityService } from './observability.service';
+
+/**
+ * Módulo interno que resuelve y exporta las opciones de observabilidad
+ * para que los módulos de tracing, logs y métricas puedan inyectarlas
+ */
+@Module({})
+class ObservabilityOptionsModule {}
+
+/**
+ * Punto de entrada unificado. Compone {@link TracingModule},
+ * {@link LoggingModule}, {@link PrometheusModule} y, opcionalmente,
+ * {@link HealthModule} a partir de un único objeto de opciones.
+ * Debe registrarse una sola vez en el módulo raíz de la aplicación.
+ */
+@Module({})
+export class ObservabilityModule {
+  static register(options: ObservabilityOptions = {}): DynamicModule {
+    const optionsModule = ObservabilityModule.createOptionsModule({
+      provide: OBSERVABILITY_OPTIONS,
+      useValue: options,
+    });
+
+    const imports: DynamicModule[] = [
+      optionsModule,
+      TracingModule.forRootAsync({
+        useFactory: () => ObservabilityModule.toTracingConfig(options),
+      }),
+      LoggingModule.forRoot(ObservabilityModule.toLoggingConfig(options)),
+    ];
+
+    if (options.metrics?.enabled !== false) {
+      imports.push(
+        PrometheusModule.register(
+          ObservabilityModule.toPrometheusOptions(options),
+        ),
+      );
+    }
+
+    if (options.health && options.health.enabled !== false) {
+      imports.push(
+        ObservabilityModule.createHealthModule(
+          options.health,
+          options.metrics?.pushgateway?.url,
+        ),
+      );
+    }
+
+    return ObservabilityModule.assemble(options.global, optionsModule, imports);
+  }
+
+  /**
+   * Registra el módulo resolviendo las opciones de forma asíncrona.
+   * Como en {@link ObservabilityModule.register}, con `metrics.enabled: false`
+   * no se registra el módulo de Prometheus. La factoría también puede
+   * deshabilitar las métricas, aunque el módulo ya esté registrado.
+   */
+  static registerAsync(options: ObservabilityAsyncOptions): DynamicModule {
+    const metricsRegistered = options.metrics?.enabled !== false;
+    const optionsModule = ObservabilityModule.createOptionsModule(
+      {
+        provide: OBSERVABILITY_OPTIONS,
+        useFactory: async (...args: any[]): Promise<ObservabilityOptions> => {
+          const resolved = await options.useFactory(...args);
+          return {
+            ...resolved,
+            metrics: {
+              ...resolved.metrics,
+              enabled: metricsRegistered && resolved.metrics?.enabled !== false,
+            },
+          };
+        },
+        inject: options.inject || [],
+      },
+      options.imports,
+    );
+
+    const imports: DynamicModule[] = [
+      optionsModule,
+      TracingModule.forRootAsync({
+        imports: [optionsModule],
+        useFactory: (resolved: ObservabilityOptions) =>
+          ObservabilityModule.toTracingConfig(resolved),
+        inject: [OBSERVABILITY_OPTIONS],
+      }),
+      LoggingModule.forRootAsync({
+        imports: [optionsModule],
+        useFactory: (resolved: ObservabilityOptions) =>
+          ObservabilityModule.toLoggingConfig(resolved),
+        inject: [OBSERVABILITY_OPTIONS],
+      }),
+    ];
+
+    if (metricsRegistered) {
+      imports.push(
+        PrometheusModule.registerAsync({
+          imports: [optionsModule],
+          useFactory: (resolved: ObservabilityOptions) =>
+            ObservabilityModule.toPrometheusOptions(resolved),
+          inject: [OBSERVABILITY_OPTIONS],
+        }),
+      );
+    }
+
+    if (options.health && options.health.enabled !== false) {
+      const { path, indicators } = options.health;
+      const healthOptions = ObservabilityModule.withoutEnabled(options.health);
+      imports.push(
+        HealthModule.forRootAsync({
+          path,
+          indicators,
+          imports: [optionsModule],
+          useFactory: (resolved: ObservabilityOptions) => ({
+            pushgatewayUrl: resolved.metrics?.pushgateway?.url,
+            ...healthOptions,
+          }),
+          inject: [OBSERVABILITY_OPTIONS],
+        }),
+      );
+    }
+
+    return ObservabilityModule.assemble(options.global, optionsModule, imports);
+  }
+
+  private static assemble(
+    global: boolean | undefined,
+    optionsModule: DynamicModule,
+    imports: DynamicModule[],
+  ): DynamicModule {
+    return {
+      module: ObservabilityModule,
+      global: global ?? true,
+      imports,
+      providers: [ObservabilityService],
+      exports: [ObservabilityService, optionsModule],
+    };
+  }
+
+  private static createOptionsModule(
+    provider: Provider,
+    imports: ObservabilityAsyncOptions['imports'] = [],
+  ): DynamicModule {
+    return {
+      module: ObservabilityOptionsModule,
+      imports,
+      providers: [provider],
+      exports: [OBSERVABILITY_OPTIONS],
+    };
+  }
+
+  private static createHealthModule(
+    options: ObservabilityHealthOptions,
+    pushgatewayUrl?: string,
+  ): DynamicModule {
+    return HealthModule.forRoot({
+      pushgatewayUrl,
+      ...ObservabilityModule.withoutEnabled(options),
+    });
+  }
+
+  /**
+   * Copia las opciones sin el indicador `enabled`, que solo usa este módulo
+   */
+  private static withoutEnabled<T extends { enabled?: boolean }>(
+    options: T,
+  ): Omit<T, 'enabled'> {
+    const copy = { ...options };
+    delete copy.enabled;
+    return copy;
+  }
+
+  /**
+   * Traduce las opciones unificadas a la configuración de tracing.
+   * Solo se sobrescriben los valores definidos para conservar los
+   * valores por defecto tomados de las variables de entorno.
+   */
+  private static toTracingConfig(
+    options: ObservabilityOptions,
+  ): Partial<TracingConfig> {
+    const config: Partial<TracingConfig> = { ...options.tracing };
+
+    if (options.serviceName !== undefined) {
+      config.serviceName = options.serviceName;
+    }
+    if (options.serviceVersion !== undefined) {
+      config.serviceVersion = options.serviceVersion;
+    }
+    if (options.environment !== undefined) {
+      config.environment = options.environment;
+    }
+
+    return config;
+  }
+
+  /**
+   * Traduce las opciones unificadas a la configuración de logs
+   */
+  private static toLoggingConfig(
+    options: ObservabilityOptions,
+  ): Partial<LoggingConfig> {
+    const config: Partial<LoggingConfig> = { ...options.logging };
+
+    if (options.serviceName !== undefined) {
+      config.serviceName = options.serviceName;
+    }
+    if (options.environment !== undefined) {
+      config.environment = options.environment;
+    }
+
+    return config;
+  }
+
+  /**
+   * Traduce las opciones unificadas a la configuración de Prometheus,
+   * añadiendo los datos del servicio como etiquetas por defecto
+   */
+  private static toPrometheusOptions(
+    options: ObservabilityOptions,
+  ): PrometheusOptions {
+    const metrics = ObservabilityModule.withoutEnabled(options.metrics || {});
+
+    const serviceLabels: Record<string, string> = {};
+    if (options.serviceName) {
+      serviceLabels.service = options.serviceName;
+    }
+    if (options.serviceVersion) {
+      serviceLabels.version = options.serviceVersion;
+    }
+    if (options.environment) {
+      serviceLabels.environment = options.environment;
+    }
+
+    const prometheusOptions: PrometheusOptions = {
+      ...metrics,
+      defaultLabels: { ...serviceLabels, ...metrics.defaultLabels },
+    };
+
+    // Deshabilitadas desde la factoría de registerAsync: el módulo ya está
+    // registrado, pero no recoge métricas
+    if (options.metrics?.enabled === false) {
+      prometheusOptions.defaultMetrics = { enabled: false };
+      prometheusOptions.httpMetrics = { enabled: false };
+    }
+
+    return prometheusOptions;
+  }
+}
@@ -0,0 +1,96 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { SpanStatusCode, trace } from '@opentelemetry/api';
+import { TracingService } from '../tracing/tracing.service';
+import { StructuredLogger } from '../logging/structured-logger.service';
+import { OBSERVABILITY_OPTIONS } from './constants';
+import { ObservabilityOptions } from './interfaces';
+import { ObservabilityMetrics } from './observability.metrics';
+
+/**
+ * Fachada que agrupa trazas, métricas y logs bajo una misma configuración
+ * de servicio.
+ */
+@Injectable()
+export class ObservabilityService {
+  /**
+   * Acceso a las métricas de Prometheus con el prefijo configurado
+   */
+  readonly metrics: ObservabilityMetrics;
+
+  constructor(
+    readonly tracing: TracingService,
+    /**
+     * Logger estructurado correlacionado con las trazas
+     */
+    readonly logs: StructuredLogger,
+    @Inject(OBSERVABILITY_OPTIONS)
+    private readonly options: ObservabilityOptions,
+  ) {
+    this.metrics = new ObservabilityMetrics(options.metrics);
+  }
+
+  /**
+   * Con `metrics.enabled: false` los eventos y errores no se cuentan
+   */
+  private get metricsEnabled(): boolean {
+    return this.options.metrics?.enabled !== false;
+  }
+
+  /**
+   * Registra un evento de negocio en el span activo, incrementa el contador
+   * de eventos y, opcionalmente, escribe un log
+   * @param name Nombre del evento
+   * @param attributes Atributos del evento
+   * @param message Mensaje de log opcional
+   */
+  recordEvent(
+    name: string,
+    attributes?: Record<string, any>,
+    message?: string,
+  ): void {
+    const redaction = this.tracing.getRedactionPolicy();
+    trace
+      .getActiveSpan()
+      ?.addEvent(name, redaction.redactAttributes(attributes));
+
+    if (this.metricsEnabled) {
+      this.metrics
+        .getCounter(
+          'observability_events_total',
+          'Total de eventos registrados',
+          ['event'],
+        )
+        .inc({ event: name });
+    }
+
+    if (message) {
+      this.logs.log({ ...redaction.redact(attributes), message, event: name });
+    }
+  }
+
+  /**
+   * Registra un error en el span activo, incrementa el contador de errores
+   * y escribe el error en los logs
+   * @param error Error a registrar
+   * @param context Contexto donde se produjo el error
+   */
+  recordError(error: Error, context?: string): void {
+    const span = trace.getActiveSpan();
+    if (span) {
+      span.recordException(error);
+      span.setStatus({ code: SpanStatusCode.ERROR, message: error.message });
+    }
+
+    if (this.metricsEnabled) {
+      this.metrics
+        .getCounter(
+          'observability_errors_total',
+          'Total de errores registrados',
+          ['context', 'type'],
+        )
+        .inc({ context: context || 'unknown', type: error.name || 'Error' });
+    }
+
+    this.logs.error(error, context);
+  }
+}
@@ -9,3 +9,10 @@ export const PROMETHEUS_OPTIONS = Symbol('PROMETHEUS_OPTIONS');
  * @internal
  */
 export const PROM_CLIENT = Symbol('PROM_CLIENT');
+
+/**
+ * Token of the root options shared with the feature modules
+ *
+ * @internal
+ */
+export const PROMETHEUS_ROOT_OPTIONS = Symbol('PROMETHEUS_ROOT_OPTIONS');
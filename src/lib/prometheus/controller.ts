@@ -1,6 +1,31 @@
-/* eslint-disable @typescript-eslint/ban-ts-comment */
-import { Controller, Get, Res } from '@nestjs/common';
-import * as client from 'prom-client';
+import {
+  Controller,
+  Get,
+  Inject,
+  NotFoundException,
+  Optional,
+  Req,
+  Res,
+  StreamableFile,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { HttpAdapterHost } from '@nestjs/core';
+import { IncomingHttpHeaders } from 'http';
+import { RegistryContentType } from 'prom-client';
+import { PROMETHEUS_OPTIONS } from './constants';
+import { exposeMetrics, getServedRegistries } from './exposition';
+import { PrometheusOptions } from './interfaces';
+import { describeRegistries, MetricDescription } from './metrics';
+import { getAuthenticateHeader, verifyMetricsAccess } from './security';
+
+/**
+ * The parts of an Express or Fastify request used by the controller.
+ */
+interface MetricsRequest {
+  headers: IncomingHttpHeaders;
+  ip?: string;
+  socket?: { remoteAddress?: string };
+}
 
 /**
  * @public
@@ -9,15 +34,100 @@ import * as client from 'prom-client';
  */
 @Controller()
 export class PrometheusController {
+  constructor(
+    private readonly adapterHost: HttpAdapterHost,
+    @Optional()
+    @Inject(PROMETHEUS_OPTIONS)
+    private readonly options?: PrometheusOptions<RegistryContentType>,
+  ) {}
+
+  /**
+   * Serves the metrics in the format negotiated from the `Accept` header
+   * (Prometheus text 0.0.4 or OpenMetrics 1.0.0), gzipped when the scraper
+   * accepts it. Responds with 406 when neither format is acceptable, and
+   * with 401/403 when `security` rejects the request.
+   */
   @Get()
-  async index(@Res({ passthrough: true }) response: unknown): Promise<string> {
-    // See this issue for why we type this as `unknown`
+  async index(
+    // The response is written through the HTTP adapter so the controller
+    // works on Express and Fastify without depending on their types.
     // https://github.com/willsoto/nestjs-prometheus/issues/530
-    // I currently don't know of any type from NestJS that captures the
-    // union of all available responses and I don't want to force users to
-    // download types for a framework they aren't using.
-    // @ts-expect-error
-    response.header('Content-Type', client.register.contentType);
-    return client.register.metrics();
+    @Res({ passthrough: true }) response: unknown,
+    @Req() request?: MetricsRequest,
+  ): Promise<string | StreamableFile> {
+    const headers = this.verifyAccess(response, request);
+    const httpAdapter = this.adapterHost.httpAdapter;
+
+    const exposition = await exposeMetrics(this.options, headers);
+    httpAdapter.setHeader(response, 'Content-Type', exposition.contentType);
+    httpAdapter.setHeader(response, 'Vary', 'Accept, Accept-Encoding');
+
+    if (exposition.encoding) {
+      httpAdapter.setHeader(response, 'Content-Encoding', exposition.encoding);
+      return new StreamableFile(exposition.body as Buffer, {
+        type: exposition.contentType,
+        length: exposition.body.length,
+      });
+    }
+
+    return exposition.body as string;
   }
+
+  /**
+   * Lists the metrics of the served registries as JSON when `introspection`
+   * is enabled, with the classes or modules that declared them.
+   */
+  @Get('registry')
+  introspect(
+    @Res({ passthrough: true }) response: unknown,
+    @Req() request?: MetricsRequest,
+  ): MetricDescription[] {
+    if (!this.options?.introspection) {
+      throw new NotFoundException();
+    }
+
+    this.verifyAccess(response, request);
+    return describeRegistries(getServedRegistries(this.options));
+  }
+
+  /**
+   * Applies `security` to the request, adding `WWW-Authenticate` to a 401.
+   */
+  private verifyAccess(
+    response: unknown,
+    request: MetricsRequest | undefined,
+  ): IncomingHttpHeaders {
+    const { headers = {}, ip, socket } =
+      request ?? getRequest(response) ?? ({} as MetricsRequest);
+
+    try {
+      verifyMetricsAccess(this.options?.security, {
+        headers,
+        address: ip ?? socket?.remoteAddress,
+      });
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        this.adapterHost.httpAdapter.setHeader(
+          response,
+          'WWW-Authenticate',
+          getAuthenticateHeader(this.options.security),
+        );
+      }
+      throw error;
+    }
+
+    return headers;
+  }
+}
+
+/**
+ * Custom controllers written before the request was a parameter only pass
+ * the response, which links back to the request on both platforms.
+ */
+function getRequest(response: unknown): MetricsRequest | undefined {
+  const { req, request } = (response ?? {}) as {
+    req?: MetricsRequest;
+    request?: MetricsRequest;
+  };
+  return req ?? request;
 }
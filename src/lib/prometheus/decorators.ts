@@ -0,0 +1,231 @@
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { defer, isObservable } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+import { PrometheusOptions } from './interfaces';
+import { getOrCreateMetric } from './metrics';
+
+/**
+ * Result of a decorated method, recorded in the `outcome` label.
+ *
+ * @public
+ */
+export type MetricOutcome = 'success' | 'error';
+
+/**
+ * Options shared by the metric method decorators.
+ *
+ * @public
+ */
+export interface MetricDecoratorOptions {
+  /**
+   * Help text of the metric.
+   *
+   * @defaultValue the metric name
+   */
+  help?: string;
+  /**
+   * Static labels added to every observation.
+   */
+  labels?: Record<string, string>;
+}
+
+/**
+ * Options for {@link Timed}.
+ *
+ * @public
+ */
+export interface TimedOptions extends MetricDecoratorOptions {
+  /**
+   * Buckets (in seconds) of the histogram.
+   */
+  buckets?: number[];
+}
+
+/**
+ * Options resolved by the root `PrometheusModule`. Metrics used by the
+ * decorators are created lazily, so they honor `customMetricPrefix` no
+ * matter when the decorated class was defined.
+ */
+let decoratorOptions: PrometheusOptions<RegistryContentType> | undefined;
+
+/**
+ * @internal
+ */
+export function setMetricDecoratorOptions<T extends RegistryContentType>(
+  options: PrometheusOptions<T> | undefined,
+): void {
+  decoratorOptions = options;
+}
+
+/**
+ * Records how long the decorated method takes in a histogram, with an
+ * `outcome` label. Works on sync, async and Observable-returning methods.
+ *
+ * @public
+ *
+ * @example
+ * ```
+ * @Timed("order_processing_seconds", { labels: { queue: "orders" } })
+ * async process(order: Order) {}
+ * ```
+ */
+export function Timed(name: string, options?: TimedOptions): MethodDecorator {
+  const labels = options?.labels ?? {};
+  const labelNames = [...Object.keys(labels), 'outcome'];
+
+  return instrumentMethod(declaredBy => {
+    const histogram = getOrCreateMetric(
+      'Histogram',
+      {
+        name,
+        help: options?.help ?? name,
+        labelNames,
+        ...(options?.buckets && { buckets: options.buckets }),
+      },
+      decoratorOptions,
+      declaredBy,
+    ) as client.Histogram<string>;
+    const stopTimer = histogram.startTimer(labels);
+
+    return outcome => outcome && stopTimer({ outcome });
+  });
+}
+
+/**
+ * Counts the invocations of the decorated method, with an `outcome` label.
+ * Works on sync, async and Observable-returning methods.
+ *
+ * @public
+ */
+export function Counted(
+  name: string,
+  options?: MetricDecoratorOptions,
+): MethodDecorator {
+  const labels = options?.labels ?? {};
+  const labelNames = [...Object.keys(labels), 'outcome'];
+
+  return instrumentMethod(declaredBy => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name, help: options?.help ?? name, labelNames },
+      decoratorOptions,
+      declaredBy,
+    ) as client.Counter<string>;
+
+    return outcome => outcome && counter.inc({ ...labels, outcome });
+  });
+}
+
+/**
+ * Tracks how many invocations of the decorated method are currently in
+ * progress in a gauge. Works on sync, async and Observable-returning methods.
+ *
+ * @public
+ */
+export function InFlight(
+  name: string,
+  options?: MetricDecoratorOptions,
+): MethodDecorator {
+  const labels = options?.labels ?? {};
+
+  return instrumentMethod(declaredBy => {
+    const gauge = getOrCreateMetric(
+      'Gauge',
+      { name, help: options?.help ?? name, labelNames: Object.keys(labels) },
+      decoratorOptions,
+      declaredBy,
+    ) as client.Gauge<string>;
+    gauge.inc(labels);
+
+    return () => gauge.dec(labels);
+  });
+}
+
+/**
+ * Alias of {@link InFlight}.
+ *
+ * @public
+ */
+export const Gauged = InFlight;
+
+/**
+ * Wraps a method so `start` is called before each invocation and the
+ * returned callback once the result (value or promise) settles. Observables
+ * run on subscription, so each subscription is measured instead and the
+ * invocation itself is ended without an outcome, which must not be recorded.
+ * `start` receives the `Class.method` name declaring the metric.
+ */
+function instrumentMethod(
+  start: (declaredBy: string) => (outcome?: MetricOutcome) => void,
+): MethodDecorator {
+  return (
+    target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor,
+  ) => {
+    const originalMethod = descriptor.value;
+    // Static methods are decorated on the class itself
+    const className =
+      typeof target === 'function' ? target.name : target.constructor.name;
+    const declaredBy = `${className}.${String(propertyKey)}`;
+
+    const instrumentedMethod = function (...args: unknown[]) {
+      const end = start(declaredBy);
+      let result: any;
+
+      try {
+        result = originalMethod.apply(this, args);
+      } catch (error) {
+        end('error');
+        throw error;
+      }
+
+      if (isObservable(result)) {
+        end();
+        const source = result;
+
+        return defer(() => {
+          const endSubscription = start(declaredBy);
+          let outcome: MetricOutcome = 'success';
+
+          return source.pipe(
+            tap({ error: () => (outcome = 'error') }),
+            finalize(() => endSubscription(outcome)),
+          );
+        });
+      }
+
+      if (result && typeof result.then === 'function') {
+        return result.then(
+          (value: unknown) => {
+            end('success');
+            return value;
+          },
+          (error: unknown) => {
+            end('error');
+            throw error;
+          },
+        );
+      }
+
+      end('success');
+      return result;
+    };
+
+    // Keep the name and the metadata set by other decorators (routes, params...)
+    Object.defineProperty(instrumentedMethod, 'name', {
+      value: originalMethod.name,
+    });
+    Reflect.getMetadataKeys(originalMethod).forEach(key => {
+      Reflect.defineMetadata(
+        key,
+        Reflect.getMetadata(key, originalMethod),
+        instrumentedMethod,
+      );
+    });
+
+    descriptor.value = instrumentedMethod;
+    return descriptor;
+  };
+}
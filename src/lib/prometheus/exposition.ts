@@ -0,0 +1,254 @@
+import { Logger, NotAcceptableException } from '@nestjs/common';
+import { IncomingHttpHeaders } from 'http';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+import { PrometheusOptions } from './interfaces';
+
+const gzipAsync = promisify(gzip);
+const logger = new Logger('PrometheusModule');
+
+/**
+ * A rendered scrape response.
+ *
+ * @internal
+ */
+export interface MetricsExposition {
+  contentType: RegistryContentType;
+  encoding?: 'gzip';
+  body: string | Buffer;
+}
+
+/**
+ * Renders the registries of the module in the format negotiated from the
+ * request headers, gzipped when accepted. Throws a 406 when neither format
+ * is acceptable.
+ *
+ * @internal
+ */
+export async function exposeMetrics(
+  options: PrometheusOptions<RegistryContentType> | undefined,
+  headers: IncomingHttpHeaders,
+): Promise<MetricsExposition> {
+  const contentType = negotiateContentType(headers.accept);
+  if (!contentType) {
+    throw new NotAcceptableException(
+      `Supported types: ${client.Registry.PROMETHEUS_CONTENT_TYPE}, ${client.Registry.OPENMETRICS_CONTENT_TYPE}`,
+    );
+  }
+
+  const metrics = await renderRegistries(
+    getServedRegistries(options),
+    contentType,
+  );
+
+  const compression = options?.compression;
+  if (
+    (compression?.enabled ?? true) &&
+    Buffer.byteLength(metrics) >= (compression?.threshold ?? 1024) &&
+    acceptsGzip(headers['accept-encoding'])
+  ) {
+    return { contentType, encoding: 'gzip', body: await gzipAsync(metrics) };
+  }
+
+  return { contentType, body: metrics };
+}
+
+/**
+ * The registries served by the metrics endpoint: `registry` and the
+ * `additionalRegistries`.
+ *
+ * @internal
+ */
+export function getServedRegistries(
+  options: PrometheusOptions<RegistryContentType> | undefined,
+): client.Registry<RegistryContentType>[] {
+  return [
+    options?.registry ?? client.register,
+    ...(options?.additionalRegistries ?? []),
+  ];
+}
+
+interface MediaRange {
+  type: string;
+  version?: string;
+  q: number;
+}
+
+/**
+ * Picks the exposition format from an `Accept` header: Prometheus text
+ * 0.0.4 or OpenMetrics 1.0.0. Returns `undefined` when neither is
+ * acceptable.
+ *
+ * @internal
+ */
+export function negotiateContentType(
+  accept: string | undefined,
+): RegistryContentType | undefined {
+  if (!accept) {
+    return client.Registry.PROMETHEUS_CONTENT_TYPE;
+  }
+
+  const ranges = accept
+    .split(',')
+    .map(parseMediaRange)
+    .filter(range => range.q > 0)
+    // Stable sort: ties keep the order of the header
+    .map((range, index) => ({ range, index }))
+    .sort((a, b) => b.range.q - a.range.q || a.index - b.index)
+    .map(({ range }) => range);
+
+  for (const { type, version } of ranges) {
+    if (
+      (type === 'application/openmetrics-text' &&
+        (!version || version === '1.0.0')) ||
+      type === 'application/*'
+    ) {
+      return client.Registry.OPENMETRICS_CONTENT_TYPE;
+    }
+    if (
+      (type === 'text/plain' && (!version || version === '0.0.4')) ||
+      type === 'text/*' ||
+      type === '*/*'
+    ) {
+      return client.Registry.PROMETHEUS_CONTENT_TYPE;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Whether an `Accept-Encoding` header allows gzip.
+ *
+ * @internal
+ */
+export function acceptsGzip(
+  acceptEncoding: string | string[] | undefined,
+): boolean {
+  return ([] as string[])
+    .concat(acceptEncoding ?? [])
+    .join(',')
+    .split(',')
+    .map(parseMediaRange)
+    .some(({ type, q }) => (type === 'gzip' || type === '*') && q > 0);
+}
+
+/**
+ * Renders a registry in the given format, whatever its own content type.
+ * `metrics` restricts the rendering to some of the metrics of the registry.
+ *
+ * @internal
+ */
+export async function renderMetrics(
+  registry: client.Registry<RegistryContentType>,
+  contentType: RegistryContentType,
+  metrics: client.MetricObject[] = registry.getMetricsAsArray(),
+): Promise<string> {
+  if (
+    registry.contentType === contentType &&
+    metrics.length === registry.getMetricsAsArray().length
+  ) {
+    return registry.metrics();
+  }
+
+  // prom-client renames counters in place when rendering OpenMetrics, so
+  // each metric is registered in a temporary registry through a
+  // prototype-linked copy, keeping the original registry untouched.
+  const target = new client.Registry<RegistryContentType>();
+  target.setContentType(contentType);
+
+  metrics.forEach(metric => {
+    target.registerMetric(Object.create(metric));
+  });
+  target.setDefaultLabels(getDefaultLabels(registry));
+
+  return target.metrics();
+}
+
+/**
+ * Renders several registries as a single exposition. Each registry keeps its
+ * own default labels. A metric name registered in more than one registry is
+ * only served from the first one, the others are skipped with a warning.
+ *
+ * @internal
+ */
+export async function renderRegistries(
+  registries: client.Registry<RegistryContentType>[],
+  contentType: RegistryContentType,
+): Promise<string> {
+  if (registries.length === 1) {
+    return renderMetrics(registries[0], contentType);
+  }
+
+  const names = new Set<string>();
+  const served = registries.map(registry => ({
+    registry,
+    metrics: registry.getMetricsAsArray().filter(metric => {
+      if (names.has(metric.name)) {
+        logger.warn(
+          `A metric with the name ${metric.name} is registered in more than one registry. Only the first one is served.`,
+        );
+        return false;
+      }
+      names.add(metric.name);
+      return true;
+    }),
+  }));
+
+  const expositions = await Promise.all(
+    served
+      .filter(({ metrics }) => metrics.length > 0)
+      .map(({ registry, metrics }) =>
+        renderMetrics(registry, contentType, metrics),
+      ),
+  );
+
+  if (contentType === client.Registry.OPENMETRICS_CONTENT_TYPE) {
+    const families = expositions.map(exposition =>
+      exposition.replace(/\n?# EOF\n$/, ''),
+    );
+    return `${families.filter(Boolean).join('\n')}\n# EOF\n`;
+  }
+
+  return expositions.length > 0 ? expositions.join('\n') : '\n';
+}
+
+/**
+ * Renders a registry in the OpenMetrics format, whatever its content type.
+ *
+ * @internal
+ */
+export function renderOpenMetrics(
+  registry: client.Registry<RegistryContentType>,
+): Promise<string> {
+  return renderMetrics(registry, client.Registry.OPENMETRICS_CONTENT_TYPE);
+}
+
+/**
+ * prom-client does not expose the default labels of a registry.
+ */
+function getDefaultLabels(
+  registry: client.Registry<RegistryContentType>,
+): object {
+  return (
+    (registry as unknown as { _defaultLabels?: object })._defaultLabels ?? {}
+  );
+}
+
+function parseMediaRange(value: string): MediaRange {
+  const [type, ...parameters] = value.split(';').map(part => part.trim());
+  const range: MediaRange = { type: type.toLowerCase(), q: 1 };
+
+  parameters.forEach(parameter => {
+    const [key, parameterValue] = parameter.split('=').map(part => part.trim());
+    if (key === 'q') {
+      range.q = Number(parameterValue) || 0;
+    } else if (key === 'version') {
+      range.version = parameterValue;
+    }
+  });
+
+  return range;
+}
@@ -1,5 +1,10 @@
 export * from './controller';
+export * from './decorators';
 export * from './injector';
+export * from './interceptor';
 export * from './interfaces';
 export * from './metrics';
+export * from './metrics-server';
 export * from './module';
+export * from './pushgateway.service';
+export * from './testing';
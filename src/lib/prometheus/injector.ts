@@ -1,5 +1,5 @@
 import { Inject } from '@nestjs/common';
-import { getToken } from './metrics';
+import { getToken, MetricDefinition } from './metrics';
 
 /**
  * Used to inject the registered metric via the given token
@@ -19,7 +19,14 @@ import { getToken } from './metrics';
  *   constructor(@InjectMetric("metric_name") public counter: Counter<string>) {}
  * }
  * ```
+ *
+ * Metrics declared with {@link defineMetric} are injected from their
+ * definition, typed with {@link InferMetric}.
  */
-export function InjectMetric(name: string) {
-  return Inject(getToken(name));
+export function InjectMetric(nameOrDefinition: string | MetricDefinition) {
+  return Inject(
+    typeof nameOrDefinition === 'string'
+      ? getToken(nameOrDefinition)
+      : nameOrDefinition.token,
+  );
 }
@@ -0,0 +1,152 @@
+import {
+  CallHandler,
+  ExecutionContext,
+  Inject,
+  Injectable,
+  NestInterceptor,
+  Optional,
+} from '@nestjs/common';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { Observable } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+import { PROMETHEUS_OPTIONS } from './constants';
+import { PrometheusOptions } from './interfaces';
+import { getOrCreateMetric } from './metrics';
+
+/**
+ * `route` label of the requests without a route template
+ *
+ * @internal
+ */
+const UNMATCHED_ROUTE = 'UNMATCHED';
+
+/**
+ * Records RED (rate, errors, duration) metrics for every HTTP request:
+ * `http_requests_total`, `http_request_duration_seconds` and
+ * `http_requests_in_flight`.
+ *
+ * Registered globally when `httpMetrics.enabled` is set, but it can also be
+ * applied to specific controllers with `@UseInterceptors(MetricsInterceptor)`.
+ *
+ * @public
+ */
+@Injectable()
+export class MetricsInterceptor implements NestInterceptor {
+  private readonly requestsTotal: client.Counter<string>;
+  private readonly requestDuration: client.Histogram<string>;
+  private readonly requestsInFlight: client.Gauge<string>;
+
+  constructor(
+    @Optional()
+    @Inject(PROMETHEUS_OPTIONS)
+    private readonly options?: PrometheusOptions<RegistryContentType>,
+  ) {
+    this.requestsTotal = getOrCreateMetric(
+      'Counter',
+      {
+        name: 'http_requests_total',
+        help: 'Total number of HTTP requests',
+        labelNames: ['method', 'route', 'status_code', 'controller'],
+      },
+      options,
+      MetricsInterceptor.name,
+    ) as client.Counter<string>;
+
+    const buckets = options?.httpMetrics?.buckets;
+    this.requestDuration = getOrCreateMetric(
+      'Histogram',
+      {
+        name: 'http_request_duration_seconds',
+        help: 'Duration of HTTP requests in seconds',
+        labelNames: ['method', 'route', 'status_code', 'controller'],
+        ...(buckets && { buckets }),
+      },
+      options,
+      MetricsInterceptor.name,
+    ) as client.Histogram<string>;
+
+    this.requestsInFlight = getOrCreateMetric(
+      'Gauge',
+      {
+        name: 'http_requests_in_flight',
+        help: 'Number of HTTP requests currently being served',
+        labelNames: ['method', 'route', 'controller'],
+      },
+      options,
+      MetricsInterceptor.name,
+    ) as client.Gauge<string>;
+  }
+
+  intercept(context: ExecutionContext, next: CallHandler): Observable<unknown> {
+    if (context.getType() !== 'http') {
+      return next.handle();
+    }
+
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const route = getRouteTemplate(request);
+
+    if (this.isExcluded(route)) {
+      return next.handle();
+    }
+
+    const labels = {
+      method: request.method,
+      route,
+      controller: context.getClass().name,
+    };
+
+    this.requestsInFlight.inc(labels);
+    const stopTimer = this.requestDuration.startTimer();
+    let statusCode: number | undefined;
+
+    return next.handle().pipe(
+      tap({
+        error: error => {
+          statusCode =
+            typeof error?.getStatus === 'function'
+              ? error.getStatus()
+              : error?.status || 500;
+        },
+      }),
+      finalize(() => {
+        const finalLabels = {
+          ...labels,
+          status_code: String(statusCode ?? response.statusCode),
+        };
+
+        this.requestsTotal.inc(finalLabels);
+        stopTimer(finalLabels);
+        this.requestsInFlight.dec(labels);
+      }),
+    );
+  }
+
+  private isExcluded(route: string): boolean {
+    const path = this.options?.path ?? '/metrics';
+    if (route === path || route === `${path}/registry`) {
+      return true;
+    }
+
+    return (this.options?.httpMetrics?.excludeRoutes ?? []).some(pattern =>
+      typeof pattern === 'string' ? pattern === route : pattern.test(route),
+    );
+  }
+}
+
+/**
+ * Route template of the request (`/orders/:id`) on Express and Fastify.
+ * Never the raw URL, whose ids and query strings would make the `route`
+ * label unbounded.
+ *
+ * @internal
+ */
+function getRouteTemplate(request: any): string {
+  return (
+    request.route?.path ??
+    request.routeOptions?.url ??
+    request.routerPath ??
+    UNMATCHED_ROUTE
+  );
+}
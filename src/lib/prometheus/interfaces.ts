@@ -2,6 +2,7 @@ import { Type } from '@nestjs/common';
 import { ModuleMetadata } from '@nestjs/common/interfaces';
 import * as client from 'prom-client';
 import { PrometheusContentType, RegistryContentType } from 'prom-client';
+import { MetricConflictMode } from './metrics/declarations';
 
 /**
  * Configuration for the defaultMetrics collected by `prom-client`.
@@ -23,6 +24,190 @@ export interface PrometheusDefaultMetrics<
   config?: client.DefaultMetricsCollectorConfiguration<T>;
 }
 
+/**
+ * Configuration for the automatic HTTP (RED) metrics recorded by
+ * {@link MetricsInterceptor}.
+ *
+ * @public
+ */
+export interface PrometheusHttpMetrics {
+  /**
+   * Whether or not HTTP metrics are recorded for every request.
+   *
+   * @defaultValue false
+   */
+  enabled: boolean;
+  /**
+   * Buckets (in seconds) for `http_request_duration_seconds`.
+   *
+   * @defaultValue the `prom-client` default buckets
+   */
+  buckets?: number[];
+  /**
+   * Templated routes (eg `/users/:id`) that should not be measured. Strings
+   * must match exactly. The metrics and introspection paths are always
+   * excluded.
+   */
+  excludeRoutes?: Array<string | RegExp>;
+}
+
+/**
+ * Compression of the metrics endpoint responses.
+ *
+ * @public
+ */
+export interface PrometheusCompression {
+  /**
+   * Whether or not responses are gzipped when the scraper sends
+   * `Accept-Encoding: gzip`.
+   *
+   * @defaultValue true
+   */
+  enabled: boolean;
+  /**
+   * Minimum size (in bytes) of the exposition before it is compressed.
+   *
+   * @defaultValue 1024
+   */
+  threshold?: number;
+}
+
+/**
+ * Limits on the number of series (label value combinations) of the metrics
+ * created by the module. Once a limit is reached, new series are folded into
+ * a series whose labels are all `__overflow__`.
+ *
+ * @public
+ */
+export interface PrometheusCardinalityLimits {
+  /**
+   * Maximum number of series of each metric.
+   *
+   * @defaultValue 1000
+   */
+  maxSeriesPerMetric?: number;
+  /**
+   * Maximum number of series across all the metrics of the registry.
+   *
+   * @defaultValue 10000
+   */
+  maxSeries?: number;
+  /**
+   * Per-metric overrides of `maxSeriesPerMetric`, by metric name (without
+   * `customMetricPrefix`).
+   */
+  metrics?: Record<string, number>;
+}
+
+/**
+ * Protection of the metrics endpoint. When both `basicAuth` and
+ * `bearerToken` are set, either one is accepted.
+ *
+ * @public
+ */
+export interface PrometheusEndpointSecurity {
+  /**
+   * Credentials required through `Authorization: Basic`.
+   */
+  basicAuth?: { username: string; password: string };
+  /**
+   * Token required through `Authorization: Bearer`.
+   */
+  bearerToken?: string;
+  /**
+   * Client addresses (eg `10.0.0.0/8`, `127.0.0.1`, `::1/128`) allowed to
+   * scrape. Behind a proxy, configure `trust proxy` (Express) or
+   * `trustProxy` (Fastify) so the client address is used. A malformed entry
+   * makes the module initialization fail.
+   */
+  allowedCidrs?: string[];
+}
+
+/**
+ * Dedicated HTTP server for the metrics endpoint, eg to keep it reachable
+ * only from inside the cluster.
+ *
+ * @public
+ */
+export interface PrometheusMetricsServer {
+  port: number;
+  /**
+   * @defaultValue all interfaces
+   */
+  host?: string;
+}
+
+/**
+ * Retry policy of the pushes made by {@link PushgatewayService}.
+ *
+ * @public
+ */
+export interface PrometheusPushgatewayRetry {
+  /**
+   * How many times a failed push is retried.
+   *
+   * @defaultValue 3
+   */
+  retries?: number;
+  /**
+   * Delay (in milliseconds) before the first retry, doubled on every
+   * following retry.
+   *
+   * @defaultValue 1000
+   */
+  backoff?: number;
+}
+
+/**
+ * Configuration of the Pushgateway, injectable as `Pushgateway` and pushed
+ * through {@link PushgatewayService}.
+ *
+ * @public
+ */
+export interface PrometheusPushgateway<
+  T extends RegistryContentType = PrometheusContentType,
+> {
+  url: string;
+  /**
+   * Options of the HTTP requests made to the Pushgateway.
+   */
+  options?: unknown;
+  /**
+   * @defaultValue the module `registry`
+   */
+  registry?: client.Registry<T>;
+  /**
+   * The `job` label of the pushed metrics.
+   *
+   * @defaultValue nestjs
+   */
+  jobName?: string;
+  /**
+   * Additional grouping labels, eg `{ instance: hostname() }`.
+   */
+  groupings?: Record<string, string>;
+  /**
+   * `pushAdd` only replaces the metrics with the same names in the group,
+   * `push` replaces the whole group.
+   *
+   * @defaultValue pushAdd
+   */
+  mode?: 'push' | 'pushAdd';
+  /**
+   * Push the metrics every `interval` milliseconds. Disabled when not set.
+   */
+  interval?: number;
+  /**
+   * Push the metrics one last time when the application shuts down. Requires
+   * `app.enableShutdownHooks()` for signals to trigger it.
+   *
+   * @defaultValue false
+   */
+  pushOnShutdown?: boolean;
+  /** {@inheritDoc PrometheusPushgatewayRetry} */
+  retry?: PrometheusPushgatewayRetry;
+}
+
 /**
  * Options for the Prometheus Module.
  *
@@ -53,14 +238,17 @@ export interface PrometheusOptions<
    * @example
    * ```
    * import { PrometheusController } from "@willsoto/nestjs-prometheus";
-   * import { Controller, Get, Res } from "@nestjs/common";
-   * import { Response } from "express";
+   * import { Controller, Get, Req, Res } from "@nestjs/common";
+   * import { Request, Response } from "express";
    *
    * @Controller()
    * class MyCustomController extends PrometheusController {
    *   @Get()
-   *   index(@Res({ passthrough: true }) response: Response) {
-   *     return super.index(response);
+   *   index(
+   *     @Res({ passthrough: true }) response: Response,
+   *     @Req() request: Request,
+   *   ) {
+   *     return super.index(response, request);
    *   }
    * }
    * ```
@@ -81,16 +269,82 @@ export interface PrometheusOptions<
    */
   // Using this type to match what prom-client specifies.
   defaultLabels?: object;
-  pushgateway?: {
-    url: string;
-    options?: unknown;
-    registry?: client.Registry;
-  };
+  /** {@inheritDoc PrometheusHttpMetrics} */
+  httpMetrics?: PrometheusHttpMetrics;
+  /**
+   * Attach the `trace_id` and `span_id` of the active span as exemplars to
+   * the counters and histograms created by the library (providers,
+   * decorators and HTTP metrics). Exemplars are only served in the
+   * OpenMetrics format.
+   *
+   * @defaultValue false
+   */
+  exemplars?: boolean;
+  /** {@inheritDoc PrometheusCompression} */
+  compression?: PrometheusCompression;
+  /**
+   * Guard the metrics created by the module (providers, decorators and HTTP
+   * metrics) against unbounded label values, and expose the number of series
+   * of each metric as `nestjs_metric_cardinality`. Disabled when not set.
+   *
+   * {@inheritDoc PrometheusCardinalityLimits}
+   */
+  cardinality?: PrometheusCardinalityLimits;
+  /** {@inheritDoc PrometheusEndpointSecurity} */
+  security?: PrometheusEndpointSecurity;
+  /**
+   * Serve the metrics from a dedicated HTTP server on another port instead
+   * of the application. `path`, `security` and content negotiation still
+   * apply, but a custom `controller` is not used.
+   */
+  server?: PrometheusMetricsServer;
+  /**
+   * Registry used by the metric providers, decorators, HTTP metrics,
+   * default metrics, default labels, the metrics endpoint and the
+   * Pushgateway. Give each application (or test) its own registry to keep
+   * its metrics isolated.
+   *
+   * @defaultValue the global `prom-client` register
+   */
+  registry?: client.Registry<T>;
+  /**
+   * Other registries served by the metrics endpoint along with `registry`,
+   * eg one per tenant. Each keeps its own default labels. A metric name
+   * registered in more than one of them is only served from the first one.
+   */
+  additionalRegistries?: client.Registry<T>[];
+  /** {@inheritDoc PrometheusPushgateway} */
+  pushgateway?: PrometheusPushgateway<T>;
+  /**
+   * {@inheritDoc MetricConflictMode}
+   *
+   * @defaultValue warn
+   */
+  onMetricConflict?: MetricConflictMode;
+  /**
+   * Serve the list of the registered metrics (type, help, labels and the
+   * classes or modules that declared them) as JSON at `{path}/registry`.
+   * `security` applies to it as well.
+   *
+   * @defaultValue false
+   */
+  introspection?: boolean;
 }
 
+type PrometheusOptionalOptions =
+  | 'cardinality'
+  | 'security'
+  | 'server'
+  | 'pushgateway'
+  | 'customMetricPrefix'
+  | 'compression'
+  | 'registry'
+  | 'additionalRegistries';
+
 export type PrometheusOptionsWithDefaults<
   T extends RegistryContentType = PrometheusContentType,
-> = Required<Omit<PrometheusOptions<T>, 'pushgateway' | 'customMetricPrefix'>>;
+> = Required<Omit<PrometheusOptions<T>, PrometheusOptionalOptions>> &
+  Pick<PrometheusOptions<T>, PrometheusOptionalOptions>;
 
 /**
  * @private
@@ -127,6 +381,13 @@ export interface PrometheusAsyncOptions<
 
   /** {@inheritDoc PrometheusOptions.controller} */
   controller?: PrometheusOptions<T>['controller'];
+  /**
+   * Serve the metrics from the dedicated server returned as `server` by the
+   * options factory. The controller is then not mounted on the application.
+   *
+   * @defaultValue false
+   */
+  server?: boolean;
   useFactory?(
     ...args: unknown[]
   ): Promise<PrometheusUseFactoryOptions<T>> | PrometheusUseFactoryOptions<T>;
@@ -0,0 +1,143 @@
+import {
+  HttpException,
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+  Optional,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { RegistryContentType } from 'prom-client';
+import { PROMETHEUS_OPTIONS } from './constants';
+import { exposeMetrics, getServedRegistries } from './exposition';
+import { PrometheusOptions } from './interfaces';
+import { describeRegistries } from './metrics';
+import { getAuthenticateHeader, verifyMetricsAccess } from './security';
+
+/**
+ * Serves the metrics endpoint from a dedicated HTTP server when
+ * `server` is configured, so it can stay off the public application port.
+ *
+ * @public
+ */
+@Injectable()
+export class MetricsServer implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(MetricsServer.name);
+  private server?: Server;
+
+  constructor(
+    @Optional()
+    @Inject(PROMETHEUS_OPTIONS)
+    private readonly options?: PrometheusOptions<RegistryContentType>,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    const config = this.options?.server;
+    if (!config) {
+      return;
+    }
+
+    this.server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        this.logger.error(`Metrics scrape failed: ${error.message}`);
+        if (!response.headersSent) {
+          response.statusCode = 500;
+        }
+        response.end();
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      this.server.once('error', reject);
+      this.server.listen(config.port, config.host, () => {
+        this.server.off('error', reject);
+        resolve();
+      });
+    });
+    this.logger.log(
+      `Serving metrics on port ${this.address().port}${this.getPath()}`,
+    );
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    if (!this.server) {
+      return;
+    }
+
+    await new Promise(resolve => this.server.close(resolve));
+    this.server = undefined;
+  }
+
+  /**
+   * Address the metrics server listens on, eg to find the port when
+   * `server.port` is 0.
+   */
+  address(): AddressInfo | undefined {
+    return this.server?.address() as AddressInfo | undefined;
+  }
+
+  private async handle(
+    request: IncomingMessage,
+    response: ServerResponse,
+  ): Promise<void> {
+    const { pathname } = new URL(request.url, 'http://localhost');
+    const introspection =
+      this.options.introspection && pathname === `${this.getPath()}/registry`;
+    if (pathname !== this.getPath() && !introspection) {
+      return this.reply(response, 404);
+    }
+    if (request.method !== 'GET' && request.method !== 'HEAD') {
+      response.setHeader('Allow', 'GET, HEAD');
+      return this.reply(response, 405);
+    }
+
+    try {
+      verifyMetricsAccess(this.options.security, {
+        headers: request.headers,
+        address: request.socket.remoteAddress,
+      });
+      if (introspection) {
+        const body = JSON.stringify(
+          describeRegistries(getServedRegistries(this.options)),
+        );
+        response.setHeader('Content-Type', 'application/json; charset=utf-8');
+        response.setHeader('Content-Length', Buffer.byteLength(body));
+        response.end(request.method === 'HEAD' ? undefined : body);
+        return;
+      }
+
+      const exposition = await exposeMetrics(this.options, request.headers);
+
+      response.setHeader('Content-Type', exposition.contentType);
+      response.setHeader('Vary', 'Accept, Accept-Encoding');
+      if (exposition.encoding) {
+        response.setHeader('Content-Encoding', exposition.encoding);
+      }
+      response.setHeader('Content-Length', Buffer.byteLength(exposition.body));
+      response.end(request.method === 'HEAD' ? undefined : exposition.body);
+    } catch (error) {
+      if (!(error instanceof HttpException)) {
+        throw error;
+      }
+      if (error instanceof UnauthorizedException) {
+        response.setHeader(
+          'WWW-Authenticate',
+          getAuthenticateHeader(this.options.security),
+        );
+      }
+      this.reply(response, error.getStatus());
+    }
+  }
+
+  private reply(response: ServerResponse, statusCode: number): void {
+    response.statusCode = statusCode;
+    response.end();
+  }
+
+  private getPath(): string {
+    return this.options?.path ?? '/metrics';
+  }
+}
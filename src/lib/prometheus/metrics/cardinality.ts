@@ -0,0 +1,239 @@
+import { Logger } from '@nestjs/common';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { PrometheusCardinalityLimits } from '../interfaces';
+
+type Labels = client.LabelValues<string>;
+
+/**
+ * Value given to every label of the series folded once a limit is reached.
+ *
+ * @public
+ */
+export const OVERFLOW_LABEL_VALUE = '__overflow__';
+
+/**
+ * @internal
+ */
+export const CARDINALITY_METRIC_NAME = 'nestjs_metric_cardinality';
+
+/**
+ * Methods that create series from their first (labels) argument. Timers and
+ * `setToCurrentTime` end up calling `set` or `observe`.
+ */
+const LABELLED_METHODS = ['inc', 'dec', 'set', 'observe'];
+
+/**
+ * Tracks the series of the metrics of a registry and folds the new ones into
+ * an `__overflow__` series once the per-metric or global limit is reached.
+ *
+ * @internal
+ */
+export class CardinalityGuard {
+  private readonly logger = new Logger('CardinalityGuard');
+  private readonly series = new Map<string, Set<string>>();
+  private readonly warned = new Set<string>();
+
+  constructor(readonly limits: PrometheusCardinalityLimits) {}
+
+  /**
+   * Wraps the methods of a metric so its label values go through the guard.
+   *
+   * @param limitName name looked up in `limits.metrics`
+   */
+  protect<M extends client.Metric<string>>(metric: M, limitName: string): M {
+    const name = (metric as unknown as { name: string }).name;
+    const labelNames: string[] =
+      (metric as unknown as { labelNames?: string[] }).labelNames ?? [];
+    const limit =
+      this.limits.metrics?.[limitName] ??
+      this.limits.maxSeriesPerMetric ??
+      1000;
+    const target = metric as unknown as Record<string, Function>;
+
+    this.series.set(name, new Set());
+    if (labelNames.length === 0) {
+      return metric;
+    }
+
+    const guard = (labels: Labels) =>
+      this.admit(name, labelNames, labels, limit);
+
+    LABELLED_METHODS.filter(
+      method => typeof target[method] === 'function',
+    ).forEach(method => {
+      const original = target[method].bind(metric);
+      target[method] = (first?: unknown, ...rest: unknown[]) =>
+        original(guardArgument(first, guard), ...rest);
+    });
+
+    const toLabels = (values: unknown[]): Labels =>
+      isLabels(values[0])
+        ? values[0]
+        : labelNames.reduce(
+            (acc, labelName, index) => ({
+              ...acc,
+              [labelName]: values[index] as string | number,
+            }),
+            {} as Labels,
+          );
+
+    const labels = target.labels.bind(metric);
+    target.labels = (...values: unknown[]) => labels(guard(toLabels(values)));
+
+    const remove = target.remove.bind(metric);
+    target.remove = (...values: unknown[]) => {
+      const removed = toLabels(values);
+      this.series
+        .get(name)
+        ?.delete(
+          JSON.stringify(labelNames.map(labelName => removed[labelName])),
+        );
+      return remove(...values);
+    };
+
+    const reset = target.reset.bind(metric);
+    target.reset = () => {
+      this.series.get(name)?.clear();
+      return reset();
+    };
+
+    return metric;
+  }
+
+  /**
+   * Number of series tracked for each metric.
+   */
+  getCardinality(): Map<string, number> {
+    return new Map(
+      Array.from(this.series.entries()).map(([name, series]) => [
+        name,
+        series.size,
+      ]),
+    );
+  }
+
+  private admit(
+    name: string,
+    labelNames: string[],
+    labels: Labels,
+    limit: number,
+  ): Labels {
+    const series = this.series.get(name);
+    const key = JSON.stringify(labelNames.map(labelName => labels[labelName]));
+    if (!series || series.has(key) || isOverflow(labels)) {
+      return labels;
+    }
+
+    const total = Array.from(this.series.values()).reduce(
+      (sum, metricSeries) => sum + metricSeries.size,
+      0,
+    );
+    if (series.size < limit && total < (this.limits.maxSeries ?? 10000)) {
+      series.add(key);
+      return labels;
+    }
+
+    if (!this.warned.has(name)) {
+      this.warned.add(name);
+      this.logger.warn(
+        `Metric ${name} reached its cardinality limit, new series are folded into ${OVERFLOW_LABEL_VALUE}. Avoid unbounded label values such as ids or raw URLs.`,
+      );
+    }
+
+    return Object.keys(labels).reduce(
+      (acc, labelName) => ({ ...acc, [labelName]: OVERFLOW_LABEL_VALUE }),
+      {} as Labels,
+    );
+  }
+}
+
+const guards = new WeakMap<
+  client.Registry<RegistryContentType>,
+  CardinalityGuard
+>();
+
+/**
+ * Returns the guard of a registry, registering the `nestjs_metric_cardinality`
+ * gauge in it when missing.
+ *
+ * @internal
+ */
+export function getCardinalityGuard(
+  registry: client.Registry<RegistryContentType>,
+  limits: PrometheusCardinalityLimits,
+): CardinalityGuard {
+  let guard = guards.get(registry);
+  if (!guard) {
+    guard = new CardinalityGuard(limits);
+    guards.set(registry, guard);
+  } else if (!isSameLimits(guard.limits, limits)) {
+    new Logger('CardinalityGuard').warn(
+      'Different cardinality limits were given for the same registry, the first ones are kept.',
+    );
+  }
+
+  if (!registry.getSingleMetric(CARDINALITY_METRIC_NAME)) {
+    const cardinalityGuard = guard;
+    new client.Gauge({
+      name: CARDINALITY_METRIC_NAME,
+      help: 'Number of series of each metric guarded by the cardinality limits',
+      labelNames: ['metric'],
+      registers: [registry as client.Registry],
+      collect() {
+        this.reset();
+        cardinalityGuard.getCardinality().forEach((size, metric) => {
+          this.set({ metric }, size);
+        });
+      },
+    });
+  }
+
+  return guard;
+}
+
+/**
+ * Replaces the labels of a `(labels, ...)` or `({ labels, ... })` argument.
+ */
+function guardArgument(
+  argument: unknown,
+  guard: (labels: Labels) => Labels,
+): unknown {
+  if (!isLabels(argument)) {
+    return argument;
+  }
+
+  const data = argument as { labels?: unknown };
+  if ('exemplarLabels' in data || isLabels(data.labels)) {
+    return isLabels(data.labels)
+      ? { ...data, labels: guard(data.labels) }
+      : data;
+  }
+  return guard(argument);
+}
+
+function isSameLimits(
+  a: PrometheusCardinalityLimits,
+  b: PrometheusCardinalityLimits,
+): boolean {
+  const metrics = (limits: PrometheusCardinalityLimits) =>
+    JSON.stringify(
+      Object.keys(limits.metrics ?? {})
+        .sort()
+        .map(name => [name, limits.metrics[name]]),
+    );
+  return (
+    a === b ||
+    (a.maxSeries === b.maxSeries &&
+      a.maxSeriesPerMetric === b.maxSeriesPerMetric &&
+      metrics(a) === metrics(b))
+  );
+}
+
+function isLabels(value: unknown): value is Labels {
+  return value !== null && typeof value === 'object';
+}
+
+function isOverflow(labels: Labels): boolean {
+  return Object.values(labels).every(value => value === OVERFLOW_LABEL_VALUE);
+}
@@ -0,0 +1,222 @@
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { Metrics, Options } from './utils';
+
+/**
+ * What happens when a metric is requested with the name of a registered
+ * metric but another type, other label names or other buckets.
+ *
+ * - `throw` fails with an error describing both definitions
+ * - `warn` logs the conflict and returns the registered metric
+ * - `namespace-suffix` creates the requested metric under its name suffixed
+ *   with the declaring class or module (or its type when unknown), eg
+ *   `orders_total_billing_service`
+ *
+ * @public
+ */
+export type MetricConflictMode = 'throw' | 'warn' | 'namespace-suffix';
+
+/**
+ * A metric of a registry, as listed by the introspection endpoint.
+ *
+ * @public
+ */
+export interface MetricDescription {
+  name: string;
+  type: string;
+  help: string;
+  labelNames: string[];
+  /**
+   * Upper bounds of a histogram.
+   */
+  buckets?: number[];
+  /**
+   * Classes or modules that requested the metric, empty for the metrics
+   * registered without the library (eg the default metrics).
+   */
+  declaredBy: string[];
+}
+
+/**
+ * The properties `prom-client` sets on every metric but doesn't type.
+ */
+interface RegisteredMetric {
+  name: string;
+  type: string;
+  help: string;
+  labelNames?: string[];
+  upperBounds?: number[];
+}
+
+const declarations = new WeakMap<
+  client.Registry<RegistryContentType>,
+  Map<string, Set<string>>
+>();
+
+/**
+ * Remembers which class or module requested a metric of a registry.
+ *
+ * @internal
+ */
+export function recordMetricDeclaration(
+  registry: client.Registry<RegistryContentType>,
+  name: string,
+  declaredBy: string | undefined,
+): void {
+  if (!declarations.has(registry)) {
+    declarations.set(registry, new Map());
+  }
+
+  const metricDeclarations = declarations.get(registry);
+  const declaredByNames = metricDeclarations.get(name) ?? new Set<string>();
+  if (declaredBy) {
+    declaredByNames.add(declaredBy);
+  }
+  metricDeclarations.set(name, declaredByNames);
+}
+
+/**
+ * Describes how a registered metric differs from the requested definition,
+ * or returns `undefined` when they match.
+ *
+ * @internal
+ */
+export function describeMetricConflict(
+  metric: client.Metric<string>,
+  type: Metrics,
+  options: Options,
+): string | undefined {
+  const {
+    name,
+    type: registeredType,
+    labelNames,
+    upperBounds,
+  } = metric as unknown as RegisteredMetric;
+
+  return describeConflict(
+    name,
+    { type: registeredType, labelNames, buckets: upperBounds },
+    getShape(type, options),
+  );
+}
+
+/**
+ * Describes how two definitions of the same metric differ, or returns
+ * `undefined` when they match.
+ *
+ * @internal
+ */
+export function describeDefinitionConflict(
+  declared: { type: Metrics; options: Options },
+  requested: { type: Metrics; options: Options },
+): string | undefined {
+  return describeConflict(
+    declared.options.name,
+    getShape(declared.type, declared.options),
+    getShape(requested.type, requested.options),
+  );
+}
+
+/**
+ * Lists the metrics of the registries, sorted by name.
+ *
+ * @internal
+ */
+export function describeRegistries(
+  registries: client.Registry<RegistryContentType>[],
+): MetricDescription[] {
+  return registries
+    .reduce<MetricDescription[]>(
+      (descriptions, registry) =>
+        descriptions.concat(
+          registry.getMetricsAsArray().map(metric => {
+            const { name, type, help, labelNames, upperBounds } =
+              metric as unknown as RegisteredMetric;
+
+            return {
+              name,
+              type,
+              help,
+              labelNames: labelNames ?? [],
+              ...(upperBounds && { buckets: upperBounds }),
+              declaredBy: Array.from(
+                declarations.get(registry)?.get(name) ?? new Set<string>(),
+              ),
+            };
+          }),
+        ),
+      [],
+    )
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+/**
+ * Suffix appended by the `namespace-suffix` mode, eg `billing_service` for
+ * `BillingService`.
+ *
+ * @internal
+ */
+export function getNamespaceSuffix(
+  type: Metrics,
+  declaredBy: string | undefined,
+): string {
+  return (declaredBy ?? type)
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/[^a-zA-Z0-9_]+/g, '_')
+    .toLowerCase();
+}
+
+interface MetricShape {
+  type: string;
+  labelNames?: readonly string[];
+  buckets?: number[];
+}
+
+function getShape(type: Metrics, options: Options): MetricShape {
+  return {
+    type: type.toLowerCase(),
+    labelNames: options.labelNames,
+    buckets: (options as client.HistogramConfiguration<string>).buckets,
+  };
+}
+
+/**
+ * Buckets are only compared when both definitions set them, a histogram
+ * requested without buckets accepts the registered ones.
+ */
+function describeConflict(
+  name: string,
+  registered: MetricShape,
+  requested: MetricShape,
+): string | undefined {
+  const sameBuckets =
+    registered.type !== 'histogram' ||
+    !registered.buckets ||
+    !requested.buckets ||
+    describeBuckets(registered.buckets) === describeBuckets(requested.buckets);
+
+  if (
+    registered.type === requested.type &&
+    describeLabels(registered.labelNames) ===
+      describeLabels(requested.labelNames) &&
+    sameBuckets
+  ) {
+    return undefined;
+  }
+
+  return `Metric ${name} is already registered as a ${describeShape(registered)}, which conflicts with the ${describeShape(requested)}`;
+}
+
+function describeShape({ type, labelNames, buckets }: MetricShape): string {
+  return type === 'histogram' && buckets
+    ? `${type} with labels ${describeLabels(labelNames)} and buckets ${describeBuckets(buckets)}`
+    : `${type} with labels ${describeLabels(labelNames)}`;
+}
+
+function describeLabels(labelNames: readonly string[] | undefined): string {
+  return `[${[...(labelNames ?? [])].sort().join(', ')}]`;
+}
+
+function describeBuckets(buckets: number[]): string {
+  return `[${[...buckets].sort((a, b) => a - b).join(', ')}]`;
+}
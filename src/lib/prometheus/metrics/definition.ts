@@ -0,0 +1,153 @@
+import { Provider } from '@nestjs/common';
+import * as client from 'prom-client';
+import { makeCounterProvider } from './counter';
+import { makeGaugeProvider } from './gauge';
+import { makeHistogramProvider } from './histogram';
+import { makeSummaryProvider } from './summary';
+import { getToken } from './utils';
+
+/**
+ * Kinds of metric accepted by {@link defineMetric}.
+ *
+ * @public
+ */
+export type MetricKind = 'counter' | 'gauge' | 'histogram' | 'summary';
+
+/**
+ * The `prom-client` metric of a given kind and label names.
+ *
+ * @public
+ */
+export type MetricOfKind<
+  K extends MetricKind,
+  L extends string,
+> = K extends 'counter'
+  ? client.Counter<L>
+  : K extends 'gauge'
+    ? client.Gauge<L>
+    : K extends 'histogram'
+      ? client.Histogram<L>
+      : client.Summary<L>;
+
+type ConfigurationOfKind<
+  K extends MetricKind,
+  L extends string,
+> = K extends 'counter'
+  ? client.CounterConfiguration<L>
+  : K extends 'gauge'
+    ? client.GaugeConfiguration<L>
+    : K extends 'histogram'
+      ? client.HistogramConfiguration<L>
+      : client.SummaryConfiguration<L>;
+
+/**
+ * Options of {@link defineMetric}: the `prom-client` configuration of the
+ * metric plus its `type`.
+ *
+ * @public
+ */
+export type MetricDefinitionOptions<
+  K extends MetricKind,
+  L extends string,
+> = Omit<ConfigurationOfKind<K, L>, 'labelNames' | 'registers'> & {
+  type: K;
+  labelNames?: readonly L[];
+};
+
+/**
+ * A metric declared with {@link defineMetric}.
+ *
+ * @public
+ */
+export interface MetricDefinition<
+  K extends MetricKind = MetricKind,
+  L extends string = string,
+> {
+  readonly type: K;
+  readonly name: string;
+  readonly labelNames: readonly L[];
+  /**
+   * Injection token of the metric, also accepted by `InjectMetric`.
+   */
+  readonly token: string;
+  /**
+   * Provider creating the metric, to be registered with
+   * `PrometheusModule.forFeature` or in the `providers` of a module.
+   */
+  readonly provider: Provider;
+}
+
+/**
+ * The metric injected for a definition.
+ *
+ * @public
+ *
+ * @example
+ * ```
+ * constructor(
+ *   @InjectMetric(RequestDuration)
+ *   private readonly duration: InferMetric<typeof RequestDuration>,
+ * ) {}
+ * ```
+ */
+export type InferMetric<D> =
+  D extends MetricDefinition<infer K, infer L> ? MetricOfKind<K, L> : never;
+
+/**
+ * Declares a metric once, with its type and label names checked by
+ * TypeScript wherever it is injected.
+ *
+ * @public
+ *
+ * @example
+ * ```
+ * export const RequestDuration = defineMetric({
+ *   type: "histogram",
+ *   name: "request_duration_seconds",
+ *   help: "Duration of the requests",
+ *   labelNames: ["route", "status"] as const,
+ * });
+ *
+ * // duration.labels({ route, status }) is checked, a typo is a compile error
+ * ```
+ */
+export function defineMetric<K extends MetricKind, L extends string = never>(
+  options: MetricDefinitionOptions<K, L>,
+): MetricDefinition<K, L> {
+  const { type, ...configuration } = options;
+
+  return {
+    type,
+    name: options.name,
+    labelNames: options.labelNames ?? [],
+    token: getToken(options.name),
+    provider: makeProvider(type, configuration),
+  };
+}
+
+function makeProvider(
+  type: MetricKind,
+  configuration: Record<string, unknown>,
+): Provider {
+  switch (type) {
+    case 'counter':
+      return makeCounterProvider(
+        configuration as unknown as client.CounterConfiguration<string>,
+      );
+    case 'gauge':
+      return makeGaugeProvider(
+        configuration as unknown as client.GaugeConfiguration<string>,
+      );
+    case 'histogram':
+      return makeHistogramProvider(
+        configuration as unknown as client.HistogramConfiguration<string>,
+      );
+    case 'summary':
+      return makeSummaryProvider(
+        configuration as unknown as client.SummaryConfiguration<string>,
+      );
+    default:
+      // eslint-disable-next-line @typescript-eslint/restrict-template-expressions
+      throw new Error(`Unknown type: ${type}`);
+  }
+}
@@ -0,0 +1,138 @@
+import {
+  isSpanContextValid,
+  trace,
+  TraceFlags,
+} from '@opentelemetry/api';
+import * as client from 'prom-client';
+
+type Labels = client.LabelValues<string>;
+
+/**
+ * Returns the exemplar labels (`trace_id`, `span_id`) of the active span, or
+ * `undefined` when there is no sampled span to link to.
+ *
+ * @internal
+ */
+export function getTraceExemplarLabels(): Labels | undefined {
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (
+    !spanContext ||
+    !isSpanContextValid(spanContext) ||
+    (spanContext.traceFlags & TraceFlags.SAMPLED) === 0
+  ) {
+    return undefined;
+  }
+
+  return { trace_id: spanContext.traceId, span_id: spanContext.spanId };
+}
+
+/**
+ * Creates a counter that attaches the active trace as an exemplar on every
+ * `inc`, while keeping the regular `inc(labels, value)` signature.
+ *
+ * @internal
+ */
+export function createCounterWithExemplars(
+  configuration: client.CounterConfiguration<string>,
+): client.Counter<string> {
+  const { registers = [client.register], ...config } = configuration;
+  // prom-client rejects exemplars on Prometheus registries at construction
+  // time, so the metric is registered once created. Exemplars are only
+  // rendered in the OpenMetrics format.
+  const counter = new client.Counter({
+    ...config,
+    enableExemplars: true,
+    registers: [],
+  });
+  const incWithExemplar = counter.inc.bind(counter) as (
+    data: client.IncreaseDataWithExemplar<string>,
+  ) => void;
+
+  counter.inc = ((labelsOrValue?: Labels | number, value?: number) => {
+    if (isExemplarData(labelsOrValue)) {
+      return incWithExemplar(labelsOrValue);
+    }
+
+    incWithExemplar({
+      labels: typeof labelsOrValue === 'object' ? labelsOrValue : undefined,
+      value: typeof labelsOrValue === 'number' ? labelsOrValue : value,
+      exemplarLabels: getTraceExemplarLabels(),
+    });
+  }) as client.Counter<string>['inc'];
+
+  registers.forEach(registry =>
+    registry.registerMetric(counter as unknown as client.Metric<string>),
+  );
+  return counter;
+}
+
+/**
+ * Creates a histogram that attaches the active trace as an exemplar on every
+ * `observe` and `startTimer`, while keeping their regular signatures.
+ *
+ * @internal
+ */
+export function createHistogramWithExemplars(
+  configuration: client.HistogramConfiguration<string>,
+): client.Histogram<string> {
+  const { registers = [client.register], ...config } = configuration;
+  const histogram = new client.Histogram({
+    ...config,
+    enableExemplars: true,
+    registers: [],
+  });
+  const observeWithExemplar = histogram.observe.bind(histogram) as (
+    data: client.ObserveDataWithExemplar<string>,
+  ) => void;
+
+  histogram.observe = ((labelsOrValue: Labels | number, value?: number) => {
+    if (isExemplarData(labelsOrValue)) {
+      return observeWithExemplar(labelsOrValue);
+    }
+
+    observeWithExemplar({
+      labels: typeof labelsOrValue === 'object' ? labelsOrValue : undefined,
+      value: typeof labelsOrValue === 'number' ? labelsOrValue : value,
+      exemplarLabels: getTraceExemplarLabels(),
+    });
+  }) as client.Histogram<string>['observe'];
+
+  histogram.startTimer = ((startLabels?: Labels) => {
+    // The timer may be stopped outside of the span that started it
+    const exemplarLabels = getTraceExemplarLabels();
+    const start = process.hrtime();
+
+    return (endLabels?: Labels) => {
+      const [seconds, nanoseconds] = process.hrtime(start);
+      const duration = seconds + nanoseconds / 1e9;
+      histogram.observe({
+        labels: { ...startLabels, ...endLabels },
+        value: duration,
+        exemplarLabels,
+      });
+      return duration;
+    };
+  }) as client.Histogram<string>['startTimer'];
+
+  registers.forEach(registry =>
+    registry.registerMetric(histogram as unknown as client.Metric<string>),
+  );
+  return histogram;
+}
+
+/**
+ * Distinguishes the `{ labels, value, exemplarLabels }` form from a plain
+ * label set.
+ */
+function isExemplarData(
+  arg: unknown,
+): arg is client.IncreaseDataWithExemplar<string> &
+  client.ObserveDataWithExemplar<string> {
+  return (
+    arg !== null &&
+    typeof arg === 'object' &&
+    ('exemplarLabels' in arg ||
+      (typeof (arg as { labels?: unknown }).labels === 'object' &&
+        typeof (arg as { value?: unknown }).value === 'number'))
+  );
+}
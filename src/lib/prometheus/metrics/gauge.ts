@@ -3,7 +3,7 @@ import * as client from 'prom-client';
 import { PrometheusContentType, RegistryContentType } from 'prom-client';
 import { PROMETHEUS_OPTIONS } from '../constants';
 import { PrometheusOptions } from '../interfaces';
-import { getOrCreateMetric, getToken } from './utils';
+import { describeMetricProvider, getOrCreateMetric, getToken } from './utils';
 
 /**
  * @public
@@ -11,7 +11,7 @@ import { getOrCreateMetric, getToken } from './utils';
 export function makeGaugeProvider(
   options: client.GaugeConfiguration<string>,
 ): Provider {
-  return {
+  return describeMetricProvider('Gauge', options, {
     provide: getToken(options.name),
     useFactory<T extends RegistryContentType = PrometheusContentType>(
       config?: PrometheusOptions<T>,
@@ -24,5 +24,5 @@ export function makeGaugeProvider(
         optional: true,
       },
     ],
-  };
+  });
 }
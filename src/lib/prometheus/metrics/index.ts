@@ -1,4 +1,7 @@
+export * from './cardinality';
 export * from './counter';
+export * from './declarations';
+export * from './definition';
 export * from './gauge';
 export * from './histogram';
 export * from './summary';
@@ -1,6 +1,17 @@
+import { Logger, Provider } from '@nestjs/common';
 import * as client from 'prom-client';
 import { PrometheusContentType, RegistryContentType } from 'prom-client';
 import { PrometheusOptions } from '../interfaces';
+import { getCardinalityGuard } from './cardinality';
+import {
+  describeMetricConflict,
+  getNamespaceSuffix,
+  recordMetricDeclaration,
+} from './declarations';
+import {
+  createCounterWithExemplars,
+  createHistogramWithExemplars,
+} from './exemplars';
 
 /**
  * @internal
@@ -16,7 +27,17 @@ export type Options =
   | client.CounterConfiguration<string>
   | client.HistogramConfiguration<string>;
 
+const logger = new Logger('PrometheusModule');
+const warnedConflicts = new Set<string>();
+
 /**
+ * Returns the metric registered under the name, or creates it. A registered
+ * metric with another type, other label names or other buckets is handled
+ * according to `onMetricConflict`.
+ *
+ * @param declaredBy class or module requesting the metric, listed by the
+ * introspection endpoint and used by the `namespace-suffix` mode
+ *
  * @internal
  */
 export function getOrCreateMetric<
@@ -25,28 +46,89 @@ export function getOrCreateMetric<
   type: Metrics,
   options: Options,
   prometheusOptions?: PrometheusOptions<T>,
+  declaredBy?: string,
 ): client.Metric<string> {
+  const registry = prometheusOptions?.registry ?? client.register;
   const opts: Options = {
+    registers: [registry as client.Registry],
     ...options,
     name: prometheusOptions?.customMetricPrefix
       ? prometheusOptions.customMetricPrefix.concat('_', options.name)
       : options.name,
   };
 
-  const existingMetric = client.register.getSingleMetric(opts.name);
+  const existingMetric = registry.getSingleMetric(opts.name);
   if (existingMetric) {
-    return existingMetric;
+    const conflict = describeMetricConflict(existingMetric, type, opts);
+    if (!conflict) {
+      recordMetricDeclaration(registry, opts.name, declaredBy);
+      return existingMetric;
+    }
+
+    const message = declaredBy
+      ? `${conflict} declared by ${declaredBy}`
+      : conflict;
+    switch (prometheusOptions?.onMetricConflict ?? 'warn') {
+      case 'warn':
+        // Decorators resolve their metric on every call, warn only once
+        if (!warnedConflicts.has(message)) {
+          warnedConflicts.add(message);
+          logger.warn(`${message}, the registered metric is used`);
+        }
+        return existingMetric;
+      case 'namespace-suffix':
+        return getOrCreateMetric(
+          type,
+          {
+            ...options,
+            name: `${options.name}_${getNamespaceSuffix(type, declaredBy)}`,
+          },
+          { ...prometheusOptions, onMetricConflict: 'throw' },
+          declaredBy,
+        );
+      default:
+        throw new Error(message);
+    }
   }
 
+  const metric = createMetric(
+    type,
+    opts,
+    prometheusOptions?.exemplars ?? false,
+  );
+  recordMetricDeclaration(registry, opts.name, declaredBy);
+
+  return prometheusOptions?.cardinality
+    ? getCardinalityGuard(registry, prometheusOptions.cardinality).protect(
+        metric,
+        options.name,
+      )
+    : metric;
+}
+
+/**
+ * @param exemplars whether counters and histograms link to the active trace
+ */
+function createMetric(
+  type: Metrics,
+  opts: Options,
+  exemplars: boolean,
+): client.Metric<string> {
   switch (type) {
     case 'Gauge':
       return new client.Gauge(opts as client.GaugeConfiguration<string>);
     case 'Counter':
-      return new client.Counter(opts as client.CounterConfiguration<string>);
+      return exemplars
+        ? (createCounterWithExemplars(
+            opts as client.CounterConfiguration<string>,
+          ) as unknown as client.Metric<string>)
+        : new client.Counter(opts as client.CounterConfiguration<string>);
     case 'Histogram':
-      return new client.Histogram(
-        opts as client.HistogramConfiguration<string>,
-      );
+      return exemplars
+        ? (createHistogramWithExemplars(
+            opts as client.HistogramConfiguration<string>,
+          ) as unknown as client.Metric<string>)
+        : new client.Histogram(opts as client.HistogramConfiguration<string>);
     case 'Summary':
       return new client.Summary(opts as client.SummaryConfiguration<string>);
     default:
@@ -55,6 +137,35 @@ export function getOrCreateMetric<
   }
 }
 
+/**
+ * Type and options of the providers created by the `make*Provider` helpers.
+ */
+const metricProviders = new WeakMap<
+  Provider,
+  { type: Metrics; options: Options }
+>();
+
+/**
+ * @internal
+ */
+export function describeMetricProvider(
+  type: Metrics,
+  options: Options,
+  provider: Provider,
+): Provider {
+  metricProviders.set(provider, { type, options });
+  return provider;
+}
+
+/**
+ * @internal
+ */
+export function getMetricProviderDescription(
+  provider: Provider,
+): { type: Metrics; options: Options } | undefined {
+  return metricProviders.get(provider);
+}
+
 /**
  * @public
  */
@@ -2,18 +2,43 @@ import {
   DynamicModule,
   FactoryProvider,
   Module,
+  NestInterceptor,
   Provider,
 } from '@nestjs/common';
+import { APP_INTERCEPTOR } from '@nestjs/core';
 import * as promClient from 'prom-client';
 import { RegistryContentType } from 'prom-client';
-import { PROMETHEUS_OPTIONS, PROM_CLIENT } from './constants';
+import {
+  PROMETHEUS_OPTIONS,
+  PROMETHEUS_ROOT_OPTIONS,
+  PROM_CLIENT,
+} from './constants';
 import { PrometheusController } from './controller';
+import { setMetricDecoratorOptions } from './decorators';
+import { MetricsInterceptor } from './interceptor';
+import {
+  describeDefinitionConflict,
+  getMetricProviderDescription,
+  getOrCreateMetric,
+  getToken,
+  MetricDefinition,
+  Metrics,
+  Options,
+} from './metrics';
+import { MetricsServer } from './metrics-server';
 import {
   PrometheusAsyncOptions,
   PrometheusOptions,
   PrometheusOptionsFactory,
   PrometheusOptionsWithDefaults,
 } from './interfaces';
+import { PushgatewayService } from './pushgateway.service';
+import {
+  getRootOptions,
+  PrometheusRootOptionsModule,
+  RootOptions,
+} from './root-options';
+import { verifyMetricsSecurity } from './security';
 
 /**
  * The primary entrypoint. This should be registered once in the root application module.
@@ -27,6 +52,7 @@ export class PrometheusModule {
   ): DynamicModule {
     const opts = PrometheusModule.makeDefaultOptions(options);
 
+    verifyMetricsSecurity(opts.security);
     PrometheusModule.configureServer(opts);
 
     const providers: Provider[] = [
@@ -42,16 +68,40 @@ export class PrometheusModule {
         useValue: PrometheusModule.configurePushgateway(
           url,
           gatewayOptions,
-          registry,
+          registry ?? options.registry,
         ),
       });
     }
 
+    const internalProviders: Provider[] = [];
+    if (options?.pushgateway !== undefined) {
+      providers.push(PushgatewayService);
+    }
+    if (options?.server) {
+      providers.push(MetricsServer);
+    }
+    if (options?.httpMetrics?.enabled) {
+      internalProviders.push({
+        provide: APP_INTERCEPTOR,
+        useClass: MetricsInterceptor,
+      });
+    }
+    internalProviders.push({
+      provide: PROM_CLIENT,
+      inject: [PROMETHEUS_ROOT_OPTIONS],
+      useFactory(rootOptions: RootOptions) {
+        rootOptions.resolve(opts);
+
+        return promClient;
+      },
+    });
+
     return {
       module: PrometheusModule,
       global: opts.global,
-      providers,
-      controllers: [opts.controller],
+      imports: [PrometheusRootOptionsModule],
+      providers: [...providers, ...internalProviders],
+      controllers: options?.server ? [] : [opts.controller],
       exports: providers,
     };
   }
@@ -61,29 +111,121 @@ export class PrometheusModule {
   ): DynamicModule {
     const providers = this.createAsyncProviders(options);
     const controller = options.controller ?? PrometheusController;
+    const server = options.server ?? false;
+    if (server) {
+      providers.push(MetricsServer);
+    }
 
     return {
       module: PrometheusModule,
       global: options.global,
-      controllers: [controller],
-      imports: options.imports,
+      controllers: server ? [] : [controller],
+      imports: [...(options.imports ?? []), PrometheusRootOptionsModule],
       providers: [
         ...providers,
         {
           provide: PROM_CLIENT,
-          inject: [PROMETHEUS_OPTIONS],
+          inject: [PROMETHEUS_OPTIONS, PROMETHEUS_ROOT_OPTIONS],
           useFactory<T extends RegistryContentType>(
             userOptions: PrometheusOptions<T>,
+            rootOptions: RootOptions,
           ) {
-            const opts = PrometheusModule.makeDefaultOptions(userOptions);
+            try {
+              PrometheusModule.verifyAsyncServer(server, userOptions);
+              verifyMetricsSecurity(userOptions?.security);
+              const opts = PrometheusModule.makeDefaultOptions(userOptions);
 
-            PrometheusModule.configureServer(opts);
+              PrometheusModule.configureServer(opts);
+              rootOptions.resolve(opts);
+            } catch (error) {
+              rootOptions.reject(error);
+              throw error;
+            }
 
             return promClient;
           },
         },
+        PrometheusModule.createHttpMetricsProvider(),
       ],
-      exports: [...providers],
+      exports: providers,
+    };
+  }
+
+  /**
+   * Registers and exports the metrics of a feature module. The metrics are
+   * created once the options of the root module (registered with `register`
+   * or `registerAsync`) are resolved, so they always honor
+   * `customMetricPrefix`, `registry`... A metric with the same name
+   * registered with another type, other label names or other buckets is
+   * handled according to `onMetricConflict`.
+   *
+   * @param options.namespace name of the feature, listed by the
+   * introspection endpoint and used by the `namespace-suffix` conflict mode
+   *
+   * @example
+   * ```
+   * @Module({
+   *   imports: [
+   *     PrometheusModule.forFeature(
+   *       [
+   *         makeCounterProvider({ name: "orders_total", help: "Orders" }),
+   *         RequestDuration, // defineMetric(...)
+   *       ],
+   *       { namespace: "orders" },
+   *     ),
+   *   ],
+   * })
+   * export class OrdersModule {}
+   * ```
+   */
+  public static forFeature(
+    metrics: Array<Provider | MetricDefinition>,
+    options?: { namespace?: string },
+  ): DynamicModule {
+    const declarations = new Map<string, { type: Metrics; options: Options }>();
+
+    const providers: Provider[] = metrics.map(metric => {
+      const provider = isMetricDefinition(metric) ? metric.provider : metric;
+      const declaration = getMetricProviderDescription(provider);
+      if (!declaration) {
+        throw new Error(
+          'PrometheusModule.forFeature() only accepts metrics created with defineMetric() or the make*Provider() helpers',
+        );
+      }
+
+      const { type, options: metricOptions } = declaration;
+      const declared = declarations.get(metricOptions.name);
+      const conflict =
+        declared && describeDefinitionConflict(declared, declaration);
+      if (conflict) {
+        throw new Error(`${conflict} declared in the same module`);
+      }
+      declarations.set(metricOptions.name, declaration);
+
+      return {
+        provide: getToken(metricOptions.name),
+        async useFactory<T extends RegistryContentType>(
+          moduleOptions?: PrometheusOptions<T>,
+          rootOptions?: RootOptions,
+        ) {
+          return getOrCreateMetric(
+            type,
+            metricOptions,
+            moduleOptions ?? (await getRootOptions(rootOptions)),
+            options?.namespace,
+          );
+        },
+        inject: [
+          { token: PROMETHEUS_OPTIONS, optional: true },
+          { token: PROMETHEUS_ROOT_OPTIONS, optional: true },
+        ],
+      };
+    });
+
+    return {
+      module: PrometheusModule,
+      providers,
+      exports: providers,
     };
   }
 
@@ -94,6 +236,7 @@ export class PrometheusModule {
       return [
         this.createAsyncOptionsProvider(options),
         PrometheusModule.createPushgatewayProvider(),
+        PushgatewayService,
       ];
     } else if (!options.useClass) {
       throw new Error(
@@ -108,6 +251,7 @@ export class PrometheusModule {
         useClass: options.useClass,
       },
       PrometheusModule.createPushgatewayProvider(),
+      PushgatewayService,
     ];
   }
 
@@ -145,21 +289,49 @@ export class PrometheusModule {
   private static configureServer<T extends RegistryContentType>(
     options: PrometheusOptionsWithDefaults<T>,
   ): void {
+    const registry =
+      options.registry ?? (promClient.register as promClient.Registry<T>);
+
     if (options.defaultMetrics.enabled) {
-      promClient.collectDefaultMetrics(options.defaultMetrics.config);
+      promClient.collectDefaultMetrics({
+        register: registry,
+        ...options.defaultMetrics.config,
+      });
     }
 
     if (Object.keys(options.defaultLabels).length > 0) {
-      promClient.register.setDefaultLabels(options.defaultLabels);
+      registry.setDefaultLabels(options.defaultLabels);
     }
 
     Reflect.defineMetadata('path', options.path, options.controller);
+
+    setMetricDecoratorOptions(options);
+  }
+
+  /**
+   * The controller is mounted before the options are resolved, so the
+   * dedicated server has to be chosen in `registerAsync` as well.
+   */
+  private static verifyAsyncServer<T extends RegistryContentType>(
+    server: boolean,
+    options?: PrometheusOptions<T>,
+  ): void {
+    if (server && !options?.server) {
+      throw new Error(
+        'PrometheusModule.registerAsync({ server: true }) requires the options factory to return the server configuration',
+      );
+    }
+    if (!server && options?.server) {
+      throw new Error(
+        'Set `server: true` in PrometheusModule.registerAsync() to serve the metrics from a dedicated server',
+      );
+    }
   }
 
   private static configurePushgateway<T extends RegistryContentType>(
     url: string,
     options?: unknown,
-    registry?: promClient.Registry,
+    registry?: promClient.Registry<T>,
   ): promClient.Pushgateway<T> {
     return new promClient.Pushgateway(url, options, registry);
   }
@@ -179,7 +351,7 @@ export class PrometheusModule {
           return PrometheusModule.configurePushgateway(
             url,
             gatewayOptions,
-            registry,
+            registry ?? options.registry,
           );
         }
 
@@ -188,6 +360,28 @@ export class PrometheusModule {
     };
   }
 
+  /**
+   * The options are only known once resolved, so the interceptor is always
+   * registered and falls back to a pass-through when HTTP metrics are disabled.
+   */
+  private static createHttpMetricsProvider(): FactoryProvider {
+    return {
+      provide: APP_INTERCEPTOR,
+      inject: [PROMETHEUS_OPTIONS],
+      useFactory<T extends RegistryContentType>(
+        options: PrometheusOptions<T>,
+      ): NestInterceptor {
+        if (options?.httpMetrics?.enabled) {
+          return new MetricsInterceptor(options);
+        }
+
+        return {
+          intercept: (_context, next) => next.handle(),
+        };
+      },
+    };
+  }
+
   private static makeDefaultOptions<T extends RegistryContentType>(
     options?: PrometheusOptions<T>,
   ): PrometheusOptionsWithDefaults<T> {
@@ -200,7 +394,19 @@ export class PrometheusModule {
       },
       controller: PrometheusController,
       defaultLabels: {},
+      httpMetrics: {
+        enabled: false,
+      },
+      exemplars: false,
+      onMetricConflict: 'warn',
+      introspection: false,
       ...options,
     };
   }
 }
+
+function isMetricDefinition(
+  metric: Provider | MetricDefinition,
+): metric is MetricDefinition {
+  return 'provider' in metric && 'token' in metric;
+}
@@ -0,0 +1,117 @@
+import {
+  Inject,
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+  Optional,
+} from '@nestjs/common';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { PROMETHEUS_OPTIONS } from './constants';
+import { PrometheusOptions, PrometheusPushgateway } from './interfaces';
+
+/**
+ * Pushes the metrics to the configured Pushgateway: on demand with
+ * {@link PushgatewayService.pushNow}, every `pushgateway.interval`
+ * milliseconds and, with `pushgateway.pushOnShutdown`, once more when the
+ * application shuts down.
+ *
+ * @public
+ */
+@Injectable()
+export class PushgatewayService
+  implements OnModuleInit, OnApplicationShutdown
+{
+  private readonly logger = new Logger(PushgatewayService.name);
+  private timer?: NodeJS.Timeout;
+  private pending?: Promise<void>;
+
+  constructor(
+    @Optional()
+    @Inject(PROMETHEUS_OPTIONS)
+    private readonly options?: PrometheusOptions<RegistryContentType>,
+    @Optional()
+    @Inject(client.Pushgateway)
+    private readonly pushgateway?: client.Pushgateway<RegistryContentType>,
+  ) {}
+
+  onModuleInit(): void {
+    const interval = this.config?.interval;
+    if (!this.pushgateway || !interval) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      // Skip the tick while the previous push is still being retried
+      if (!this.pending) {
+        this.pushNow().catch(() => undefined);
+      }
+    }, interval);
+    this.timer.unref();
+  }
+
+  async onApplicationShutdown(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+
+    if (this.pushgateway && this.config?.pushOnShutdown) {
+      await this.pending?.catch(() => undefined);
+      await this.pushNow().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Pushes the metrics now, retrying with an exponential backoff. Rejects
+   * once every attempt failed.
+   */
+  pushNow(): Promise<void> {
+    if (!this.pushgateway) {
+      return Promise.reject(new Error('The Pushgateway is not configured'));
+    }
+
+    const push = this.pushWithRetry();
+    const settle = () => {
+      if (this.pending === push) {
+        this.pending = undefined;
+      }
+    };
+    push.then(settle, settle);
+    this.pending = push;
+    return push;
+  }
+
+  private async pushWithRetry(): Promise<void> {
+    const { retries = 3, backoff = 1000 } = this.config?.retry ?? {};
+    const params = {
+      jobName: this.config?.jobName ?? 'nestjs',
+      groupings: this.config?.groupings,
+    };
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        await (this.config?.mode === 'push'
+          ? this.pushgateway.push(params)
+          : this.pushgateway.pushAdd(params));
+        return;
+      } catch (error) {
+        if (attempt >= retries) {
+          this.logger.error(
+            `Pushgateway push failed after ${attempt + 1} attempts: ${error.message}`,
+          );
+          throw error;
+        }
+
+        const delay = backoff * 2 ** attempt;
+        this.logger.warn(
+          `Pushgateway push failed (${error.message}), retrying in ${delay}ms`,
+        );
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  private get config(): PrometheusPushgateway<RegistryContentType> | undefined {
+    return this.options?.pushgateway;
+  }
+}
@@ -0,0 +1,76 @@
+import { Global, Module } from '@nestjs/common';
+import { RegistryContentType } from 'prom-client';
+import { PROMETHEUS_ROOT_OPTIONS } from './constants';
+import { PrometheusOptions } from './interfaces';
+
+/**
+ * Options of the root `PrometheusModule` of an application, shared with the
+ * feature modules which may not be able to inject them. Pending until
+ * `register` or `registerAsync` resolves them.
+ *
+ * @internal
+ */
+export class RootOptions {
+  private resolveOptions: (
+    options: PrometheusOptions<RegistryContentType>,
+  ) => void;
+  private rejectOptions: (error: Error) => void;
+  private readonly options = new Promise<
+    PrometheusOptions<RegistryContentType>
+  >((resolve, reject) => {
+    this.resolveOptions = resolve;
+    this.rejectOptions = reject;
+  });
+
+  constructor() {
+    // Only awaited by the feature modules, a failure is reported by the
+    // root module itself
+    this.options.catch(() => undefined);
+  }
+
+  resolve<T extends RegistryContentType>(options: PrometheusOptions<T>): void {
+    this.resolveOptions(options);
+  }
+
+  reject(error: Error): void {
+    this.rejectOptions(
+      new Error(
+        `PrometheusModule.forFeature() could not resolve the options of the root module: ${error.message}`,
+      ),
+    );
+  }
+
+  get(): Promise<PrometheusOptions<RegistryContentType>> {
+    return this.options;
+  }
+}
+
+/**
+ * Makes the root options available to the feature modules of the
+ * application, whatever the `global` option of the root module.
+ *
+ * @internal
+ */
+@Global()
+@Module({
+  providers: [{ provide: PROMETHEUS_ROOT_OPTIONS, useClass: RootOptions }],
+  exports: [PROMETHEUS_ROOT_OPTIONS],
+})
+export class PrometheusRootOptionsModule {}
+
+/**
+ * Resolves once the root module options of the application are known.
+ *
+ * @internal
+ */
+export function getRootOptions(
+  rootOptions: RootOptions | undefined,
+): Promise<PrometheusOptions<RegistryContentType>> {
+  if (!rootOptions) {
+    throw new Error(
+      'PrometheusModule.forFeature() requires PrometheusModule.register() or PrometheusModule.registerAsync() in the application',
+    );
+  }
+
+  return rootOptions.get();
+}
@@ -0,0 +1,142 @@
+import {
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import { BlockList, isIPv6 } from 'net';
+import { PrometheusEndpointSecurity } from './interfaces';
+
+/**
+ * The parts of a request checked before serving the metrics.
+ *
+ * @internal
+ */
+export interface MetricsRequestInfo {
+  headers: IncomingHttpHeaders;
+  address?: string;
+}
+
+/**
+ * Allow lists of the `allowedCidrs` already verified, parsed once.
+ */
+const allowLists = new WeakMap<string[], BlockList>();
+
+/**
+ * Parses `allowedCidrs` when the module is initialized, throwing on a
+ * malformed entry instead of failing every metrics request.
+ *
+ * @internal
+ */
+export function verifyMetricsSecurity(
+  security: PrometheusEndpointSecurity | undefined,
+): void {
+  if (security?.allowedCidrs?.length) {
+    getAllowList(security.allowedCidrs);
+  }
+}
+
+/**
+ * Throws a 403 when the client address is outside `allowedCidrs` and a 401
+ * when the credentials don't match `basicAuth` or `bearerToken`. Requests
+ * pass when either credential matches.
+ *
+ * @internal
+ */
+export function verifyMetricsAccess(
+  security: PrometheusEndpointSecurity | undefined,
+  request: MetricsRequestInfo,
+): void {
+  if (!security) {
+    return;
+  }
+
+  if (
+    security.allowedCidrs?.length &&
+    !isAddressAllowed(request.address, security.allowedCidrs)
+  ) {
+    throw new ForbiddenException();
+  }
+
+  const { basicAuth, bearerToken } = security;
+  if (!basicAuth && !bearerToken) {
+    return;
+  }
+
+  const authorization = request.headers.authorization ?? '';
+  const [scheme, credentials = ''] = authorization.split(' ');
+
+  const authorized =
+    (basicAuth &&
+      scheme.toLowerCase() === 'basic' &&
+      safeEqual(
+        Buffer.from(credentials, 'base64').toString(),
+        `${basicAuth.username}:${basicAuth.password}`,
+      )) ||
+    (bearerToken &&
+      scheme.toLowerCase() === 'bearer' &&
+      safeEqual(credentials, bearerToken));
+
+  if (!authorized) {
+    throw new UnauthorizedException();
+  }
+}
+
+/**
+ * `WWW-Authenticate` header sent along with a 401.
+ *
+ * @internal
+ */
+export function getAuthenticateHeader(
+  security: PrometheusEndpointSecurity,
+): string {
+  return security.basicAuth ? 'Basic realm="metrics"' : 'Bearer';
+}
+
+function isAddressAllowed(
+  address: string | undefined,
+  cidrs: string[],
+): boolean {
+  if (!address) {
+    return false;
+  }
+
+  return getAllowList(cidrs).check(address, isIPv6(address) ? 'ipv6' : 'ipv4');
+}
+
+function getAllowList(cidrs: string[]): BlockList {
+  let allowList = allowLists.get(cidrs);
+  if (allowList) {
+    return allowList;
+  }
+
+  allowList = new BlockList();
+  for (const cidr of cidrs) {
+    const [network, prefix] = cidr.split('/');
+    const type = isIPv6(network) ? 'ipv6' : 'ipv4';
+    try {
+      if (prefix === undefined) {
+        allowList.addAddress(network, type);
+      } else {
+        allowList.addSubnet(network, Number(prefix), type);
+      }
+    } catch (error) {
+      throw new Error(
+        `Invalid entry '${cidr}' in security.allowedCidrs: ${error.message}`,
+      );
+    }
+  }
+  allowLists.set(cidrs, allowList);
+
+  return allowList;
+}
+
+function safeEqual(actual: string, expected: string): boolean {
+  const actualBuffer = Buffer.from(actual);
+  const expectedBuffer = Buffer.from(expected);
+
+  return (
+    actualBuffer.length === expectedBuffer.length &&
+    timingSafeEqual(actualBuffer, expectedBuffer)
+  );
+}
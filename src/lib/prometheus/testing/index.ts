@@ -0,0 +1,2 @@
+export * from './prometheus-testing.module';
+export * from './prometheus-testing.service';
@@ -0,0 +1,56 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { PrometheusOptions } from '../interfaces';
+import { PrometheusModule } from '../module';
+import { PrometheusTestingService } from './prometheus-testing.service';
+
+/**
+ * Registers the `PrometheusModule` for unit tests: every module gets a fresh
+ * registry, default metrics are disabled and the metrics are cleared when
+ * the module is closed. Assert on the metrics with
+ * {@link PrometheusTestingService}.
+ *
+ * @public
+ *
+ * @example
+ * ```
+ * const moduleRef = await Test.createTestingModule({
+ *   imports: [PrometheusTestingModule.register()],
+ *   providers: [
+ *     TasksService,
+ *     makeCounterProvider({ name: "tasks_total", help: "Tasks" }),
+ *   ],
+ * }).compile();
+ *
+ * await moduleRef.get(TasksService).create();
+ * expect(
+ *   await moduleRef.get(PrometheusTestingService).getMetricValue("tasks_total"),
+ * ).toBe(1);
+ * ```
+ */
+@Module({})
+export class PrometheusTestingModule {
+  /**
+   * @param options options of the `PrometheusModule` under test, eg
+   * `httpMetrics` or `customMetricPrefix`
+   */
+  public static register<T extends RegistryContentType>(
+    options?: PrometheusOptions<T>,
+  ): DynamicModule {
+    return {
+      module: PrometheusTestingModule,
+      // Feature modules and decorated classes use the test registry as well
+      global: true,
+      imports: [
+        PrometheusModule.register({
+          defaultMetrics: { enabled: false },
+          ...options,
+          registry: options?.registry ?? new client.Registry<T>(),
+        }),
+      ],
+      providers: [PrometheusTestingService],
+      exports: [PrometheusModule, PrometheusTestingService],
+    };
+  }
+}
@@ -0,0 +1,185 @@
+import { Inject, Injectable, OnModuleDestroy, Optional } from '@nestjs/common';
+import * as client from 'prom-client';
+import { RegistryContentType } from 'prom-client';
+import { PROMETHEUS_OPTIONS } from '../constants';
+import { PrometheusOptions } from '../interfaces';
+
+type Labels = client.LabelValues<string>;
+
+/**
+ * Reads the metrics of the registry used by {@link PrometheusTestingModule},
+ * without scraping the text exposition.
+ *
+ * @public
+ */
+@Injectable()
+export class PrometheusTestingService implements OnModuleDestroy {
+  constructor(
+    @Optional()
+    @Inject(PROMETHEUS_OPTIONS)
+    private readonly options?: PrometheusOptions<RegistryContentType>,
+  ) {}
+
+  /**
+   * Registry the metrics of the application under test are registered in.
+   */
+  get registry(): client.Registry<RegistryContentType> {
+    return this.options?.registry ?? client.register;
+  }
+
+  /**
+   * Returns a registered metric. The name is given without
+   * `customMetricPrefix`, as when declaring the metric.
+   */
+  getMetric<M extends client.Metric<string> = client.Metric<string>>(
+    name: string,
+  ): M {
+    const metricName = this.options?.customMetricPrefix
+      ? this.options.customMetricPrefix.concat('_', name)
+      : name;
+    const metric = this.registry.getSingleMetric(metricName);
+    if (!metric) {
+      const registered = this.registry
+        .getMetricsAsArray()
+        .map(
+          registeredMetric =>
+            (registeredMetric as unknown as { name: string }).name,
+        );
+      throw new Error(
+        `Metric ${metricName} is not registered. Registered metrics: [${registered.join(', ')}]`,
+      );
+    }
+
+    return metric as M;
+  }
+
+  /**
+   * Sum of the series of a counter or gauge whose labels include `labels`,
+   * or the sum of the observed values of a histogram or summary. Returns 0
+   * when no series matches.
+   *
+   * @example
+   * ```
+   * await metrics.getMetricValue("http_requests_total", { route: "/tasks" });
+   * ```
+   */
+  async getMetricValue(name: string, labels: Labels = {}): Promise<number> {
+    const metric = await this.getMetric(name).get();
+    // prom-client types `type` as a numeric enum, it is a string at runtime
+    const type = metric.type as unknown as string;
+    const sumName =
+      type === 'histogram' || type === 'summary'
+        ? `${metric.name}_sum`
+        : undefined;
+
+    return sumValues(metric, labels, sumName);
+  }
+
+  /**
+   * Assertions on the series of a histogram whose labels include `labels`.
+   *
+   * @example
+   * ```
+   * await metrics
+   *   .expectHistogram("order_processing_seconds", { outcome: "success" })
+   *   .toHaveObservations(1);
+   * ```
+   */
+  expectHistogram(name: string, labels: Labels = {}): HistogramAssertion {
+    return new HistogramAssertion(
+      this.getMetric<client.Histogram<string>>(name),
+      labels,
+    );
+  }
+
+  /**
+   * Resets the values of the metrics of the registry, eg between tests
+   * sharing the module. The metrics stay registered.
+   */
+  reset(): void {
+    this.registry.resetMetrics();
+  }
+
+  /**
+   * Removes the metrics of the registry. The global `prom-client` register
+   * is left untouched, unless it is the registry of the module. Called when
+   * the module is closed.
+   */
+  clear(): void {
+    this.registry.clear();
+  }
+
+  onModuleDestroy(): void {
+    this.clear();
+  }
+}
+
+/**
+ * Assertions on a histogram returned by
+ * {@link PrometheusTestingService.expectHistogram}. They throw, so they work
+ * with any test framework.
+ *
+ * @public
+ */
+export class HistogramAssertion {
+  constructor(
+    private readonly histogram: client.Histogram<string>,
+    private readonly labels: Labels,
+  ) {}
+
+  /**
+   * Number of observations of the matching series.
+   */
+  async toHaveObservations(count: number): Promise<void> {
+    const metric = await this.histogram.get();
+    const observations = sumValues(metric, this.labels, `${metric.name}_count`);
+
+    if (observations !== count) {
+      throw new Error(
+        `Expected ${metric.name}${describeLabels(this.labels)} to have ${count} observations, got ${observations}`,
+      );
+    }
+  }
+
+  /**
+   * Sum of the observed values of the matching series.
+   */
+  async toHaveSum(sum: number): Promise<void> {
+    const metric = await this.histogram.get();
+    const actual = sumValues(metric, this.labels, `${metric.name}_sum`);
+
+    if (actual !== sum) {
+      throw new Error(
+        `Expected the observations of ${metric.name}${describeLabels(this.labels)} to sum ${sum}, got ${actual}`,
+      );
+    }
+  }
+}
+
+/**
+ * Sums the values whose labels include `labels`, only keeping the
+ * `metricName` series of histograms and summaries.
+ */
+function sumValues(
+  metric: client.MetricObjectWithValues<client.MetricValue<string>>,
+  labels: Labels,
+  metricName?: string,
+): number {
+  return metric.values
+    .filter(
+      value =>
+        !metricName ||
+        (value as client.MetricValueWithName<string>).metricName === metricName,
+    )
+    .filter(value =>
+      Object.keys(labels).every(
+        label => String(value.labels[label]) === String(labels[label]),
+      ),
+    )
+    .reduce((sum, value) => sum + value.value, 0);
+}
+
+function describeLabels(labels: Labels): string {
+  const pairs = Object.keys(labels).map(label => `${label}="${labels[label]}"`);
+  return pairs.length ? `{${pairs.join(', ')}}` : '';
+}
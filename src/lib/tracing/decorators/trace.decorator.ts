@@ -1,123 +1,237 @@
-import { applyDecorators } from '@nestjs/common';
 import { SpanOptions } from '../types';
-import { SpanKind } from '@opentelemetry/api';
+import { context, Span, SpanKind, trace } from '@opentelemetry/api';
+import { defer, isObservable, Observable } from 'rxjs';
+import { finalize, tap } from 'rxjs/operators';
+import type { TracingService } from '../tracing.service';
+
+/**
+ * Clave de metadatos con la que se marcan los métodos decorados con @Trace
+ */
+export const TRACE_METADATA = 'tracing:trace';
+
+/**
+ * Servicio de tracing de cada instancia con métodos decorados con @Trace,
+ * registrado por TraceExplorer al arrancar la aplicación. Las clases con
+ * scope REQUEST o TRANSIENT se registran por clase, ya que sus instancias se
+ * crean después del arranque.
+ */
+const tracingServices = new WeakMap<object, TracingService>();
+
+/**
+ * Asocia el servicio de tracing a una instancia (o a una clase)
+ * @internal
+ */
+export function registerTracingService(
+  target: object,
+  tracingService: TracingService,
+): void {
+  tracingServices.set(target, tracingService);
+}
+
+/**
+ * Retira el servicio de tracing de una instancia (o de una clase)
+ * @internal
+ */
+export function unregisterTracingService(target: object): void {
+  tracingServices.delete(target);
+}
 
 /**
  * Decorador para añadir trazabilidad a métodos en controladores y servicios.
  * Crea automáticamente un span para el método decorado.
  *
- * @param name Nombre personalizado para el span (opcional, por defecto usa el nombre del método)
+ * El servicio de tracing se asocia a cada proveedor y controlador al
+ * arrancar la aplicación, por lo que no es necesario inyectarlo en la clase.
+ * Las instancias creadas fuera del contenedor de DI no se trazan.
+ * El método conserva su tipo de retorno: los síncronos siguen siendo
+ * síncronos, las promesas finalizan el span al resolverse y los Observables
+ * al completarse, con un span por suscripción.
+ *
+ * @param name Nombre personalizado para el span (opcional, por defecto usa el nombre de la clase y del método)
  * @param options Opciones adicionales para el span
  */
-export function Trace(name?: string, options?: SpanOptions) {
-  return applyDecorators(
-    // Este es un decorador de método
-    (target: any, propertyKey: string, descriptor: PropertyDescriptor) => {
-      const originalMethod = descriptor.value;
-      const spanName = name || `${target.constructor.name}.${propertyKey}`;
-      const className = target.constructor.name;
-
-      descriptor.value = function (...args: any[]) {
-        // Necesitamos obtener el servicio de tracing del contenedor de DI de NestJS
-        // Esto se hace en tiempo de ejecución para evitar dependencias circulares
-        const tracingService = Reflect.getMetadata(
-          'tracingService',
-          target.constructor,
-        );
+export function Trace(name?: string, options?: SpanOptions): MethodDecorator {
+  return (
+    _target: object,
+    propertyKey: string | symbol,
+    descriptor: PropertyDescriptor,
+  ) => {
+    const originalMethod = descriptor.value;
+    const methodName = String(propertyKey);
 
-        if (!tracingService) {
-          console.warn(
-            `TracingService no encontrado para ${spanName}. Asegúrate de usar @InjectTracing() en tu clase.`,
-          );
-          return originalMethod.apply(this, args);
-        }
+    const tracedMethod = function (...args: any[]) {
+      const tracingService =
+        tracingServices.get(this) ?? tracingServices.get(this?.constructor);
 
-        // Preparar atributos base para el span
-        const baseAttributes = {
-          'code.function': propertyKey,
-          'code.namespace': className,
-          'code.filepath': target.constructor.name,
-        };
+      if (!tracingService) {
+        return originalMethod.apply(this, args);
+      }
 
-        // Determinar el tipo de span basado en el contexto
-        let spanKind = options?.kind || SpanKind.INTERNAL;
+      // Se usa la clase de la instancia para que las subclases que comparten
+      // el método obtengan su propio nombre de span
+      const className = this.constructor.name;
+      const spanName = name || `${className}.${methodName}`;
 
-        // Si es un controlador, usar SERVER como tipo por defecto
-        if (className.includes('Controller')) {
-          spanKind = SpanKind.SERVER;
-        }
-        // Si es un servicio que hace llamadas externas, usar CLIENT como tipo
-        else if (
-          propertyKey.includes('fetch') ||
-          propertyKey.includes('request') ||
-          propertyKey.includes('call') ||
-          propertyKey.includes('get')
-        ) {
-          spanKind = SpanKind.CLIENT;
-        }
+      // Preparar atributos base para el span
+      const baseAttributes = {
+        'code.function': methodName,
+        'code.namespace': className,
+        'code.filepath': className,
+      };
+
+      // Determinar el tipo de span basado en el contexto
+      let spanKind = options?.kind || SpanKind.INTERNAL;
+
+      // Si es un controlador, usar SERVER como tipo por defecto
+      if (className.includes('Controller')) {
+        spanKind = SpanKind.SERVER;
+      }
+      // Si es un servicio que hace llamadas externas, usar CLIENT como tipo
+      else if (
+        methodName.includes('fetch') ||
+        methodName.includes('request') ||
+        methodName.includes('call') ||
+        methodName.includes('get')
+      ) {
+        spanKind = SpanKind.CLIENT;
+      }
+
+      // Combinar atributos base con los proporcionados por el usuario
+      const combinedAttributes = {
+        ...baseAttributes,
+        ...options?.attributes,
+      };
+
+      const startSpan = () =>
+        tracingService.createSpan(spanName, combinedAttributes, {
+          kind: spanKind,
+        });
+      // Opcionalmente, extraer atributos del resultado
+      const endSpan = (span: Span, result: unknown) =>
+        tracingService.endSpan(
+          span,
+          true,
+          undefined,
+          options?.autoEnd !== false ? describeResult(result) : undefined,
+        );
 
-        // Combinar atributos base con los proporcionados por el usuario
-        const combinedAttributes = {
-          ...baseAttributes,
-          ...options?.attributes,
-        };
-
-        // Ejecutar el método original dentro de un span
-        return tracingService.trace(
-          spanName,
-          _span => originalMethod.apply(this, args),
-          {
-            attributes: combinedAttributes,
-            kind: spanKind,
-            // Opcionalmente, extraer atributos del resultado
-            resultAttributes:
-              options?.autoEnd !== false
-                ? result => {
-                    // Si el resultado es un objeto, intentar extraer información útil
-                    if (result && typeof result === 'object') {
-                      const resultAttrs: Record<string, any> = {};
-                      // Añadir información sobre el tipo de resultado
-                      resultAttrs['result.type'] = Array.isArray(result)
-                        ? 'array'
-                        : 'object';
-                      // Añadir información sobre el tamaño si es un array
-                      if (Array.isArray(result)) {
-                        resultAttrs['result.length'] = result.length;
-                      }
-                      return resultAttrs;
-                    }
-                    return {};
-                  }
-                : undefined,
+      const failSpan = (span: Span, error: any) =>
+        tracingService.endSpan(span, false, error);
+
+      // Ejecutar el método original con el span como activo
+      const span = startSpan();
+      let result: any;
+      try {
+        result = context.with(trace.setSpan(context.active(), span), () =>
+          originalMethod.apply(this, args),
+        );
+      } catch (error) {
+        failSpan(span, error);
+        throw error;
+      }
+
+      if (isObservable(result)) {
+        return traceObservable(result, span, startSpan, endSpan, failSpan);
+      }
+
+      if (typeof result?.then === 'function') {
+        return result.then(
+          (value: unknown) => {
+            endSpan(span, value);
+            return value;
+          },
+          (error: unknown) => {
+            failSpan(span, error);
+            throw error;
           },
         );
-      };
+      }
+
+      endSpan(span, result);
+      return result;
+    };
+
+    // Conservar el nombre y los metadatos definidos por otros decoradores
+    // (rutas, parámetros...) sobre el método original
+    Object.defineProperty(tracedMethod, 'name', { value: originalMethod.name });
+    Reflect.getMetadataKeys(originalMethod).forEach(key => {
+      Reflect.defineMetadata(
+        key,
+        Reflect.getMetadata(key, originalMethod),
+        tracedMethod,
+      );
+    });
+    Reflect.defineMetadata(TRACE_METADATA, { name, options }, tracedMethod);
 
-      return descriptor;
-    },
-  );
+    descriptor.value = tracedMethod;
+    return descriptor;
+  };
 }
 
 /**
  * Decorador para inyectar el servicio de tracing en una clase.
- * Debe usarse en clases que utilicen el decorador @Trace.
+ *
+ * @deprecated Ya no es necesario: @Trace resuelve el servicio de tracing
+ * automáticamente. Se mantiene por compatibilidad y no tiene efecto.
  */
-export function InjectTracing() {
-  return (target: any) => {
-    // Este decorador se ejecuta después de que NestJS haya creado la instancia
-    // y configurado todas las dependencias
-    const originalOnModuleInit = target.prototype.onModuleInit;
-
-    target.prototype.onModuleInit = async function () {
-      // Llamar al método original onModuleInit si existe
-      if (originalOnModuleInit) {
-        await originalOnModuleInit.apply(this);
-      }
+export function InjectTracing(): ClassDecorator {
+  return () => undefined;
+}
 
-      // Almacenar el servicio de tracing en los metadatos de la clase
-      if (this.tracingService) {
-        Reflect.defineMetadata('tracingService', this.tracingService, target);
-      }
-    };
-  };
+/**
+ * Atributos del resultado de un método decorado: tipo y, si es un array,
+ * su tamaño
+ */
+function describeResult(result: unknown): Record<string, any> {
+  if (!result || typeof result !== 'object') {
+    return {};
+  }
+
+  return Array.isArray(result)
+    ? { 'result.type': 'array', 'result.length': result.length }
+    : { 'result.type': 'object' };
+}
+
+/**
+ * Envuelve el Observable devuelto por un método decorado para que cada
+ * suscripción tenga su propio span, activo mientras se ejecuta el flujo y
+ * finalizado al completarse, fallar o cancelarse. La primera suscripción usa
+ * el span en el que se invocó el método.
+ */
+function traceObservable<T>(
+  source: Observable<T>,
+  callSpan: Span,
+  startSpan: () => Span,
+  endSpan: (span: Span, result: unknown) => void,
+  failSpan: (span: Span, error: any) => void,
+): Observable<T> {
+  let pendingSpan: Span | undefined = callSpan;
+
+  return defer(() => {
+    const span = pendingSpan ?? startSpan();
+    pendingSpan = undefined;
+    let lastValue: T | undefined;
+    let failed = false;
+
+    return new Observable<T>(subscriber =>
+      context.with(trace.setSpan(context.active(), span), () =>
+        source.subscribe(subscriber),
+      ),
+    ).pipe(
+      tap({
+        next: value => {
+          lastValue = value;
+        },
+        error: error => {
+          failed = true;
+          failSpan(span, error);
+        },
+      }),
+      finalize(() => {
+        if (!failed) {
+          endSpan(span, lastValue);
+        }
+      }),
+    );
+  });
 }
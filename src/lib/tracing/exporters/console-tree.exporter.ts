@@ -0,0 +1,106 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  ExportResult,
+  ExportResultCode,
+  hrTimeToMilliseconds,
+} from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Exportador para desarrollo local que escribe los spans de cada lote como
+ * árboles por traza, con la duración y el estado de cada span:
+ *
+ * ```
+ * Traza 0af7651916cd43dd8448eb211c80319c
+ * └─ GET /tasks 12.4ms
+ *    ├─ TasksService.findAll 10.1ms
+ *    └─ TasksService.count 1.2ms [ERROR: timeout]
+ * ```
+ *
+ * Los spans cuyo padre no está en el lote (trazas repartidas entre lotes o
+ * con padre remoto) se muestran como raíces.
+ */
+export class ConsoleTreeSpanExporter implements SpanExporter {
+  /**
+   * @param write Función de escritura de cada línea (por defecto la salida estándar)
+   */
+  constructor(
+    private readonly write: (line: string) => void = line =>
+      process.stdout.write(`${line}\n`),
+  ) {}
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    try {
+      groupByTrace(spans).forEach((traceSpans, traceId) => {
+        this.write(`Traza ${traceId}`);
+        const spanIds = new Set(
+          traceSpans.map(span => span.spanContext().spanId),
+        );
+        const roots = sortByStart(
+          traceSpans.filter(
+            span => !span.parentSpanId || !spanIds.has(span.parentSpanId),
+          ),
+        );
+        roots.forEach((root, index) =>
+          this.writeTree(root, traceSpans, '', index === roots.length - 1),
+        );
+      });
+      resultCallback({ code: ExportResultCode.SUCCESS });
+    } catch (error) {
+      resultCallback({ code: ExportResultCode.FAILED, error });
+    }
+  }
+
+  shutdown(): Promise<void> {
+    return Promise.resolve();
+  }
+
+  private writeTree(
+    span: ReadableSpan,
+    spans: ReadableSpan[],
+    prefix: string,
+    last: boolean,
+  ): void {
+    this.write(`${prefix}${last ? '└─' : '├─'} ${describeSpan(span)}`);
+
+    const children = sortByStart(
+      spans.filter(child => child.parentSpanId === span.spanContext().spanId),
+    );
+    children.forEach((child, index) =>
+      this.writeTree(
+        child,
+        spans,
+        `${prefix}${last ? '   ' : '│  '}`,
+        index === children.length - 1,
+      ),
+    );
+  }
+}
+
+function groupByTrace(spans: ReadableSpan[]): Map<string, ReadableSpan[]> {
+  return spans.reduce((traces, span) => {
+    const { traceId } = span.spanContext();
+    traces.set(traceId, [...(traces.get(traceId) || []), span]);
+    return traces;
+  }, new Map<string, ReadableSpan[]>());
+}
+
+function sortByStart(spans: ReadableSpan[]): ReadableSpan[] {
+  return [...spans].sort(
+    (a, b) =>
+      hrTimeToMilliseconds(a.startTime) - hrTimeToMilliseconds(b.startTime),
+  );
+}
+
+function describeSpan(span: ReadableSpan): string {
+  const duration = `${hrTimeToMilliseconds(span.duration).toFixed(1)}ms`;
+  const status =
+    span.status.code === SpanStatusCode.ERROR
+      ? ` [ERROR${span.status.message ? `: ${span.status.message}` : ''}]`
+      : '';
+
+  return `${span.name} ${duration}${status}`;
+}
@@ -0,0 +1,33 @@
+import { Context } from '@opentelemetry/api';
+import {
+  ReadableSpan,
+  Span,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Procesador que reparte cada span entre varios procesadores, uno por
+ * exportador, de modo que cada exportador tiene su propio lote y un fallo
+ * en uno no afecta a los demás
+ */
+export class FanOutSpanProcessor implements SpanProcessor {
+  constructor(private readonly processors: SpanProcessor[]) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    this.processors.forEach(processor =>
+      processor.onStart(span, parentContext),
+    );
+  }
+
+  onEnd(span: ReadableSpan): void {
+    this.processors.forEach(processor => processor.onEnd(span));
+  }
+
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.processors.map(processor => processor.forceFlush()));
+  }
+
+  async shutdown(): Promise<void> {
+    await Promise.all(this.processors.map(processor => processor.shutdown()));
+  }
+}
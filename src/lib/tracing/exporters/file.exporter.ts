@@ -0,0 +1,124 @@
+import { SpanKind } from '@opentelemetry/api';
+import {
+  ExportResult,
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  hrTimeToTimeStamp,
+} from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+
+export interface FileSpanExporterOptions {
+  // Ruta del fichero NDJSON (una línea JSON por span)
+  path: string;
+  // Tamaño en bytes a partir del cual se rota el fichero (por defecto 10 MB)
+  maxFileSize?: number;
+  // Número de ficheros rotados que se conservan (`spans.ndjson.1`, `.2`...)
+  maxFiles?: number;
+}
+
+/**
+ * Exportador que añade los spans a un fichero NDJSON para depurar sin
+ * conexión. Cuando el fichero supera `maxFileSize` se rota: el actual pasa a
+ * `<path>.1`, el `.1` a `.2`... y se elimina el que excede `maxFiles`.
+ */
+export class FileSpanExporter implements SpanExporter {
+  private readonly maxFileSize: number;
+  private readonly maxFiles: number;
+  // Tamaño actual del fichero, se lee del disco en la primera escritura
+  private size?: number;
+  // Las escrituras se encadenan para que las rotaciones no se solapen
+  private pending: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: FileSpanExporterOptions) {
+    this.maxFileSize = options.maxFileSize ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+  }
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    const lines = spans
+      .map(span => `${JSON.stringify(serializeSpan(span))}\n`)
+      .join('');
+
+    this.pending = this.pending.then(() =>
+      this.append(lines).then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error }),
+      ),
+    );
+  }
+
+  forceFlush(): Promise<void> {
+    return this.pending;
+  }
+
+  shutdown(): Promise<void> {
+    return this.pending;
+  }
+
+  private async append(lines: string): Promise<void> {
+    const { path } = this.options;
+
+    if (this.size === undefined) {
+      await fs.mkdir(dirname(path), { recursive: true });
+      this.size = await fs.stat(path).then(
+        stats => stats.size,
+        () => 0,
+      );
+    }
+
+    const bytes = Buffer.byteLength(lines);
+    if (this.size > 0 && this.size + bytes > this.maxFileSize) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(path, lines);
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    const { path } = this.options;
+
+    await fs.rm(`${path}.${this.maxFiles}`, { force: true });
+    for (let index = this.maxFiles - 1; index >= 1; index--) {
+      await fs
+        .rename(`${path}.${index}`, `${path}.${index + 1}`)
+        .catch(() => undefined);
+    }
+    if (this.maxFiles > 0) {
+      await fs.rename(path, `${path}.1`);
+    } else {
+      await fs.rm(path, { force: true });
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * Representación JSON de un span en el fichero
+ */
+function serializeSpan(span: ReadableSpan) {
+  const { traceId, spanId } = span.spanContext();
+
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanId,
+    name: span.name,
+    kind: SpanKind[span.kind],
+    startTime: hrTimeToTimeStamp(span.startTime),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: span.status,
+    attributes: span.attributes,
+    events: span.events.map(event => ({
+      name: event.name,
+      time: hrTimeToTimeStamp(event.time),
+      attributes: event.attributes,
+    })),
+    resource: span.resource.attributes,
+  };
+}
@@ -0,0 +1,8 @@
+/**
+ * Exportaciones de exportadores del módulo de Tracing
+ */
+
+export * from './console-tree.exporter';
+export * from './fan-out.processor';
+export * from './file.exporter';
+export * from './tracked.exporter';
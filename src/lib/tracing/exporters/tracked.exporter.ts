@@ -0,0 +1,48 @@
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import { ReadableSpan, SpanExporter } from '@opentelemetry/sdk-trace-base';
+
+/**
+ * Resultado de la última exportación de spans
+ */
+export interface SpanExportStatus {
+  success: boolean;
+  timestamp: Date;
+  spans: number;
+  error?: string;
+  // Tipo del exportador que produjo el resultado
+  exporter?: string;
+}
+
+/**
+ * Exportador que delega en otro exportador y notifica el resultado de cada
+ * exportación, para poder informar del estado en los health checks
+ */
+export class TrackedSpanExporter implements SpanExporter {
+  constructor(
+    private readonly exporter: SpanExporter,
+    private readonly onExport: (status: SpanExportStatus) => void,
+  ) {}
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void,
+  ): void {
+    this.exporter.export(spans, result => {
+      this.onExport({
+        success: result.code === ExportResultCode.SUCCESS,
+        timestamp: new Date(),
+        spans: spans.length,
+        error: result.error?.message,
+      });
+      resultCallback(result);
+    });
+  }
+
+  shutdown(): Promise<void> {
+    return this.exporter.shutdown();
+  }
+
+  forceFlush(): Promise<void> {
+    return this.exporter.forceFlush?.() ?? Promise.resolve();
+  }
+}
@@ -2,111 +2,267 @@ import { CallHandler, ExecutionContext, Injectable, NestInterceptor } from '@nes
 import { Observable } from 'rxjs';
 import { tap } from 'rxjs/operators';
 import { TracingService } from '../tracing.service';
-import { Span, SpanKind, SpanStatusCode } from '@opentelemetry/api';
-import { SemanticAttributes } from '@opentelemetry/semantic-conventions';
+import {
+  context as otelContext,
+  trace,
+  SpanKind,
+} from '@opentelemetry/api';
+import {
+  SemanticAttributes,
+  SEMATTRS_MESSAGING_CONSUMER_ID,
+  SEMATTRS_MESSAGING_DESTINATION,
+  SEMATTRS_MESSAGING_KAFKA_PARTITION,
+  SEMATTRS_MESSAGING_MESSAGE_PAYLOAD_SIZE_BYTES,
+  SEMATTRS_MESSAGING_OPERATION,
+  SEMATTRS_MESSAGING_SYSTEM,
+  SEMATTRS_RPC_METHOD,
+  SEMATTRS_RPC_SERVICE,
+  SEMATTRS_RPC_SYSTEM,
+} from '@opentelemetry/semantic-conventions';
+
+// Claves de metadatos de @nestjs/microservices y @nestjs/websockets,
+// que no son dependencias de la librería
+const PATTERN_METADATA = 'microservices:pattern';
+const MESSAGE_METADATA = 'message';
+
+// Sistemas de mensajería según el contexto de transporte de Nest
+const MESSAGING_SYSTEMS: Record<string, string> = {
+  KafkaContext: 'kafka',
+  RmqContext: 'rabbitmq',
+  NatsContext: 'nats',
+  MqttContext: 'mqtt',
+  RedisContext: 'redis',
+  TcpContext: 'tcp',
+};
+
+/**
+ * Descripción del span de una invocación según el tipo de contexto
+ */
+interface OperationSpan {
+  name: string;
+  kind: SpanKind;
+  attributes: Record<string, any>;
+  successAttributes?: (data: any) => Record<string, any>;
+  errorAttributes?: (error: any) => Record<string, any>;
+}
 
 @Injectable()
 export class TracingInterceptor implements NestInterceptor {
   constructor(private readonly tracingService: TracingService) {}
 
   intercept(context: ExecutionContext, next: CallHandler): Observable<any> {
-    const request = context.switchToHttp().getRequest();
-    const response = context.switchToHttp().getResponse();
-    const { method, url, route, body, params, query, headers } = request;
-    const routePath = route?.path || url;
+    const type = context.getType<string>();
     const controllerName = context.getClass().name;
     const handlerName = context.getHandler().name;
-    
-    // Crear un span para la solicitud HTTP utilizando atributos semánticos estándar
-    const span = this.tracingService.createSpan(`HTTP ${method} ${routePath}`, {
-      // Atributos semánticos estándar de OpenTelemetry
-      [SemanticAttributes.HTTP_METHOD]: method,
-      [SemanticAttributes.HTTP_URL]: url,
-      [SemanticAttributes.HTTP_ROUTE]: routePath,
-      [SemanticAttributes.HTTP_USER_AGENT]: headers['user-agent'] || '',
-      [SemanticAttributes.HTTP_CLIENT_IP]: request.ip || '',
-      
+
+    // Describir el span según el tipo de contexto (HTTP, GraphQL, RPC o WebSocket)
+    const operation =
+      type === 'graphql'
+        ? this.describeGraphqlOperation(context)
+        : type === 'rpc'
+          ? this.describeRpcOperation(context)
+          : type === 'ws'
+            ? this.describeWsOperation(context)
+            : this.describeHttpOperation(context);
+
+    const span = this.tracingService.createSpan(operation.name, {
+      ...operation.attributes,
+
       // Atributos personalizados para NestJS
+      'nestjs.type': type,
       'nestjs.controller': controllerName,
       'nestjs.handler': handlerName,
     }, {
-      kind: SpanKind.SERVER, // Marcar como span de servidor
+      kind: operation.kind,
     });
     
-    // Añadir información adicional al span si está disponible
-    this.addRequestMetadata(span, body, params, query);
-    
-    // Continuar con el manejo de la solicitud y finalizar el span cuando termine
-    return next.handle().pipe(
+    // Continuar con el manejo de la solicitud y finalizar el span cuando termine.
+    // La suscripción se realiza con el span como activo para que los spans
+    // creados por el handler (y por la instrumentación automática) sean hijos
+    const spanContext = trace.setSpan(otelContext.active(), span);
+    const handled = next.handle().pipe(
       tap({
         next: (data) => {
-          // Solicitud exitosa - añadir código de estado HTTP
-          const statusCode = response.statusCode;
-          this.tracingService.endSpan(span, true, undefined, {
-            [SemanticAttributes.HTTP_STATUS_CODE]: statusCode,
-            'response.size': this.getApproximateResponseSize(data),
-          });
+          this.tracingService.endSpan(
+            span,
+            true,
+            undefined,
+            operation.successAttributes?.(data),
+          );
         },
         error: (error) => {
-          // Error en la solicitud - añadir código de estado HTTP y detalles del error
-          const statusCode = error.status || 500;
           this.tracingService.endSpan(span, false, error, {
-            [SemanticAttributes.HTTP_STATUS_CODE]: statusCode,
             'error.name': error.name || 'Error',
             'error.code': error.code || 'UNKNOWN',
+            ...operation.errorAttributes?.(error),
           });
         },
       }),
     );
+
+    return new Observable(subscriber =>
+      otelContext.with(spanContext, () => handled.subscribe(subscriber)),
+    );
   }
 
-  private addRequestMetadata(span: Span, body?: any, params?: any, query?: any): void {
-    if (!span) return;
-    
-    // Añadir parámetros de ruta si existen (evitando datos sensibles)
+  private describeHttpOperation(context: ExecutionContext): OperationSpan {
+    const request = context.switchToHttp().getRequest();
+    const response = context.switchToHttp().getResponse();
+    const { method, url, route, body, params, query, headers } = request;
+    const routePath = route?.path || url;
+
+    return {
+      name: `HTTP ${method} ${routePath}`,
+      kind: SpanKind.SERVER, // Marcar como span de servidor
+      attributes: {
+        // Atributos semánticos estándar de OpenTelemetry
+        [SemanticAttributes.HTTP_METHOD]: method,
+        [SemanticAttributes.HTTP_URL]: url,
+        [SemanticAttributes.HTTP_ROUTE]: routePath,
+        [SemanticAttributes.HTTP_USER_AGENT]: headers['user-agent'] || '',
+        [SemanticAttributes.HTTP_CLIENT_IP]: request.ip || '',
+
+        // Información adicional de la solicitud si está disponible
+        ...this.getRequestMetadata(body, params, query),
+      },
+      // Solicitud exitosa - añadir código de estado HTTP
+      successAttributes: data => ({
+        [SemanticAttributes.HTTP_STATUS_CODE]: response.statusCode,
+        'response.size': this.getApproximateResponseSize(data),
+      }),
+      // Error en la solicitud - añadir código de estado HTTP
+      errorAttributes: error => ({
+        [SemanticAttributes.HTTP_STATUS_CODE]: error.status || 500,
+      }),
+    };
+  }
+
+  /**
+   * Los resolvers reciben (root, args, context, info); el span se nombra
+   * según el tipo y el nombre de la operación GraphQL
+   */
+  private describeGraphqlOperation(context: ExecutionContext): OperationSpan {
+    const info = context.getArgByIndex(3) || {};
+    const operationType = info.operation?.operation || 'operation';
+    const operationName = info.operation?.name?.value;
+
+    return {
+      name: `GraphQL ${operationType} ${operationName || info.fieldName || ''}`.trim(),
+      // La resolución se ejecuta dentro de la petición HTTP que la transporta
+      kind: SpanKind.INTERNAL,
+      attributes: {
+        'graphql.operation.type': operationType,
+        'graphql.operation.name': operationName,
+        'graphql.field.name': info.fieldName,
+        'graphql.field.parent_type': info.parentType?.name,
+        'graphql.arguments': context.getArgByIndex(1),
+      },
+    };
+  }
+
+  /**
+   * Mensajes recibidos por un transporte de microservicios. Los handlers
+   * gRPC se describen con los atributos rpc.* y el resto con messaging.*
+   */
+  private describeRpcOperation(context: ExecutionContext): OperationSpan {
+    const rpc = context.switchToRpc();
+    const data = rpc.getData();
+    const rpcContext = rpc.getContext();
+    const pattern = this.getRpcPattern(context, rpcContext);
+
+    if (pattern && typeof pattern === 'object' && pattern.rpc && pattern.service) {
+      return {
+        name: `RPC ${pattern.service}/${pattern.rpc}`,
+        kind: SpanKind.SERVER,
+        attributes: {
+          [SEMATTRS_RPC_SYSTEM]: 'grpc',
+          [SEMATTRS_RPC_SERVICE]: pattern.service,
+          [SEMATTRS_RPC_METHOD]: pattern.rpc,
+        },
+      };
+    }
+
+    const destination =
+      typeof pattern === 'string' ? pattern : JSON.stringify(pattern ?? 'unknown');
+
+    return {
+      name: `RPC ${destination}`,
+      kind: SpanKind.CONSUMER,
+      attributes: {
+        [SEMATTRS_MESSAGING_SYSTEM]:
+          MESSAGING_SYSTEMS[rpcContext?.constructor?.name] || 'unknown',
+        [SEMATTRS_MESSAGING_DESTINATION]: destination,
+        [SEMATTRS_MESSAGING_OPERATION]: 'process',
+        [SEMATTRS_MESSAGING_MESSAGE_PAYLOAD_SIZE_BYTES]:
+          this.getApproximateResponseSize(data),
+        [SEMATTRS_MESSAGING_KAFKA_PARTITION]: rpcContext?.getPartition?.(),
+      },
+    };
+  }
+
+  private describeWsOperation(context: ExecutionContext): OperationSpan {
+    const ws = context.switchToWs();
+    const client = ws.getClient();
+    const pattern = ws.getPattern();
+    const event =
+      typeof pattern === 'string'
+        ? pattern
+        : Reflect.getMetadata(MESSAGE_METADATA, context.getHandler()) || 'unknown';
+
+    return {
+      name: `WS ${event}`,
+      kind: SpanKind.CONSUMER,
+      attributes: {
+        [SEMATTRS_MESSAGING_SYSTEM]: 'websocket',
+        [SEMATTRS_MESSAGING_DESTINATION]: event,
+        [SEMATTRS_MESSAGING_OPERATION]: 'receive',
+        [SEMATTRS_MESSAGING_CONSUMER_ID]: client?.id,
+        [SEMATTRS_MESSAGING_MESSAGE_PAYLOAD_SIZE_BYTES]:
+          this.getApproximateResponseSize(ws.getData()),
+      },
+    };
+  }
+
+  /**
+   * Obtiene el patrón del mensaje de los metadatos del handler o, en su
+   * defecto, del contexto del transporte
+   */
+  private getRpcPattern(context: ExecutionContext, rpcContext: any): any {
+    const patterns = Reflect.getMetadata(PATTERN_METADATA, context.getHandler());
+    if (Array.isArray(patterns) && patterns.length > 0) {
+      return patterns[0];
+    }
+
+    return (
+      rpcContext?.getPattern?.() ??
+      rpcContext?.getTopic?.() ??
+      rpcContext?.getSubject?.() ??
+      rpcContext?.getChannel?.()
+    );
+  }
+
+  private getRequestMetadata(body?: any, params?: any, query?: any): Record<string, any> {
+    // Los datos sensibles se filtran con la política de redacción al crear el span
+    const attributes: Record<string, any> = {};
+
+    // Añadir parámetros de ruta si existen
     if (params && Object.keys(params).length > 0) {
-      // Filtrar datos sensibles como contraseñas, tokens, etc.
-      const safeParams = this.sanitizeData(params);
-      span.setAttribute('request.params', JSON.stringify(safeParams));
+      attributes['request.params'] = params;
     }
     
     // Añadir parámetros de consulta si existen
     if (query && Object.keys(query).length > 0) {
-      const safeQuery = this.sanitizeData(query);
-      span.setAttribute('request.query', JSON.stringify(safeQuery));
+      attributes['request.query'] = query;
     }
     
-    // Añadir cuerpo de la solicitud si existe (con precaución para evitar datos sensibles)
+    // Añadir cuerpo de la solicitud si existe
     if (body && Object.keys(body).length > 0) {
-      const safeBody = this.sanitizeData(body);
-      span.setAttribute('request.body', JSON.stringify(safeBody));
+      attributes['request.body'] = body;
     }
-  }
 
-  private sanitizeData(data: Record<string, any>): Record<string, any> {
-    // Clonar el objeto para no modificar el original
-    const sanitized = { ...data };
-    
-    // Lista de campos sensibles que deben ser redactados
-    const sensitiveFields = [
-      'password', 'token', 'secret', 'authorization', 'key', 'apiKey', 'api_key',
-      'credential', 'credentials', 'accessToken', 'refreshToken', 'auth',
-      'jwt', 'session', 'cookie', 'csrf', 'ssn', 'cc', 'card', 'cvv', 'pin'
-    ];
-    
-    // Redactar campos sensibles
-    Object.keys(sanitized).forEach(key => {
-      if (sensitiveFields.some(field => key.toLowerCase().includes(field.toLowerCase()))) {
-        sanitized[key] = '[REDACTED]';
-      } else if (typeof sanitized[key] === 'object' && sanitized[key] !== null) {
-        // Recursivamente sanitizar objetos anidados
-        sanitized[key] = this.sanitizeData(sanitized[key]);
-      }
-    });
-    
-    return sanitized;
+    return attributes;
   }
-  
+
   /**
    * Calcula el tamaño aproximado de la respuesta en bytes
    * Útil para análisis de rendimiento
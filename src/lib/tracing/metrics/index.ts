@@ -0,0 +1,5 @@
+/**
+ * Exportaciones de métricas del módulo de Tracing
+ */
+
+export * from './prometheus-metric.producer';
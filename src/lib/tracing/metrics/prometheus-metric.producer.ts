@@ -0,0 +1,200 @@
+import { Attributes, HrTime, ValueType } from '@opentelemetry/api';
+import { hrTime } from '@opentelemetry/core';
+import { Resource } from '@opentelemetry/resources';
+import {
+  AggregationTemporality,
+  CollectionResult,
+  DataPoint,
+  DataPointType,
+  Histogram,
+  InstrumentType,
+  MetricData,
+  MetricProducer,
+} from '@opentelemetry/sdk-metrics';
+import * as client from 'prom-client';
+
+type PrometheusValue = {
+  value: number;
+  labels: Record<string, string | number>;
+  metricName?: string;
+};
+
+/**
+ * Productor de métricas que lee los registros de prom-client y los convierte
+ * al modelo de datos de OpenTelemetry, para exportar por OTLP las mismas
+ * métricas que sirve PrometheusController
+ */
+export class PrometheusMetricProducer implements MetricProducer {
+  // Los contadores de prom-client son acumulativos desde el arranque
+  private readonly startTime: HrTime = hrTime();
+
+  constructor(
+    private readonly registries: client.Registry[] = [client.register],
+  ) {}
+
+  async collect(): Promise<CollectionResult> {
+    const endTime = hrTime();
+    const errors: unknown[] = [];
+    const metrics: MetricData[] = [];
+
+    for (const registry of this.registries) {
+      try {
+        const collected = await registry.getMetricsAsJSON();
+        collected.forEach(metric =>
+          metrics.push(
+            ...this.toMetricData(
+              metric as unknown as {
+                name: string;
+                help: string;
+                type: string;
+                values: PrometheusValue[];
+              },
+              endTime,
+            ),
+          ),
+        );
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+
+    return {
+      resourceMetrics: {
+        // El MetricReader conserva el Resource del SDK al combinar productores
+        resource: Resource.empty(),
+        scopeMetrics: [{ scope: { name: 'prom-client' }, metrics }],
+      },
+      errors,
+    };
+  }
+
+  private toMetricData(
+    metric: { name: string; help: string; type: string; values: PrometheusValue[] },
+    endTime: HrTime,
+  ): MetricData[] {
+    const point = <T>(value: T, labels: PrometheusValue['labels']): DataPoint<T> => ({
+      startTime: this.startTime,
+      endTime,
+      attributes: labels as Attributes,
+      value,
+    });
+    const descriptor = (name: string, type: InstrumentType) => ({
+      name,
+      description: metric.help,
+      unit: '',
+      type,
+      valueType: ValueType.DOUBLE,
+    });
+
+    switch (metric.type) {
+      case 'counter':
+        return [
+          {
+            descriptor: descriptor(metric.name, InstrumentType.COUNTER),
+            aggregationTemporality: AggregationTemporality.CUMULATIVE,
+            dataPointType: DataPointType.SUM,
+            isMonotonic: true,
+            dataPoints: metric.values.map(({ value, labels }) => point(value, labels)),
+          },
+        ];
+      case 'gauge':
+        return [
+          {
+            descriptor: descriptor(metric.name, InstrumentType.OBSERVABLE_GAUGE),
+            aggregationTemporality: AggregationTemporality.CUMULATIVE,
+            dataPointType: DataPointType.GAUGE,
+            dataPoints: metric.values.map(({ value, labels }) => point(value, labels)),
+          },
+        ];
+      case 'histogram':
+        return [
+          {
+            descriptor: descriptor(metric.name, InstrumentType.HISTOGRAM),
+            aggregationTemporality: AggregationTemporality.CUMULATIVE,
+            dataPointType: DataPointType.HISTOGRAM,
+            dataPoints: toHistograms(metric.name, metric.values).map(
+              ({ histogram, labels }) => point(histogram, labels),
+            ),
+          },
+        ];
+      case 'summary':
+        // Los cuantiles se exportan como gauge y la suma y el conteo como contadores
+        return [
+          {
+            descriptor: descriptor(metric.name, InstrumentType.OBSERVABLE_GAUGE),
+            aggregationTemporality: AggregationTemporality.CUMULATIVE,
+            dataPointType: DataPointType.GAUGE,
+            dataPoints: metric.values
+              .filter(value => (value.metricName || metric.name) === metric.name)
+              .map(({ value, labels }) => point(value, labels)),
+          },
+          ...['sum', 'count'].map(suffix => ({
+            descriptor: descriptor(`${metric.name}_${suffix}`, InstrumentType.COUNTER),
+            aggregationTemporality: AggregationTemporality.CUMULATIVE,
+            dataPointType: DataPointType.SUM as const,
+            isMonotonic: true,
+            dataPoints: metric.values
+              .filter(value => value.metricName === `${metric.name}_${suffix}`)
+              .map(({ value, labels }) => point(value, labels)),
+          })),
+        ];
+      default:
+        return [];
+    }
+  }
+}
+
+/**
+ * Agrupa las series _bucket, _sum y _count de un histograma de prom-client
+ * por etiquetas y convierte los buckets acumulados en conteos por bucket
+ */
+function toHistograms(
+  name: string,
+  values: PrometheusValue[],
+): Array<{ histogram: Histogram; labels: PrometheusValue['labels'] }> {
+  const series = new Map<
+    string,
+    {
+      labels: PrometheusValue['labels'];
+      buckets: Array<[number, number]>;
+      sum: number;
+      count: number;
+    }
+  >();
+
+  values.forEach(({ value, labels, metricName }) => {
+    const { le, ...seriesLabels } = labels;
+    const key = JSON.stringify(seriesLabels);
+    if (!series.has(key)) {
+      series.set(key, { labels: seriesLabels, buckets: [], sum: 0, count: 0 });
+    }
+    const entry = series.get(key);
+
+    if (metricName === `${name}_bucket` && le !== '+Inf') {
+      entry.buckets.push([Number(le), value]);
+    } else if (metricName === `${name}_sum`) {
+      entry.sum = value;
+    } else if (metricName === `${name}_count`) {
+      entry.count = value;
+    }
+  });
+
+  return Array.from(series.values()).map(({ labels, buckets, sum, count }) => {
+    const sorted = buckets.sort(([a], [b]) => a - b);
+    const cumulative = sorted.map(([, value]) => value);
+
+    return {
+      labels,
+      histogram: {
+        buckets: {
+          boundaries: sorted.map(([boundary]) => boundary),
+          counts: [...cumulative, count].map(
+            (value, index) => value - (index > 0 ? cumulative[index - 1] : 0),
+          ),
+        },
+        sum,
+        count,
+      },
+    };
+  });
+}
@@ -0,0 +1,42 @@
+import { TracingService } from '../tracing.service';
+
+/**
+ * Configuración de una petición de Axios, con las cabeceras como
+ * `AxiosHeaders`
+ */
+export interface AxiosLikeRequestConfig {
+  headers: { set(key: string, value: string): unknown };
+}
+
+/**
+ * Parte de una instancia de Axios que usa el interceptor. Se tipa de forma
+ * estructural para que los tipos publicados no dependan de axios, que no es
+ * una dependencia de la librería
+ */
+export interface AxiosLikeInstance {
+  interceptors: {
+    request: {
+      use(onFulfilled: (config: any) => any): number;
+    };
+  };
+}
+
+/**
+ * Registra un interceptor de peticiones en una instancia de Axios (por
+ * ejemplo `HttpService.axiosRef` de `@nestjs/axios`) que inyecta el
+ * contexto de traza activo en las cabeceras de cada petición saliente
+ * @param axios Instancia de Axios a instrumentar
+ * @param tracingService Servicio de tracing que realiza la inyección
+ * @returns El identificador del interceptor, para poder eliminarlo con `eject`
+ */
+export function registerAxiosTracing(
+  axios: AxiosLikeInstance,
+  tracingService: TracingService,
+): number {
+  return axios.interceptors.request.use((config: AxiosLikeRequestConfig) => {
+    tracingService.inject(config.headers, {
+      set: (headers, key, value) => headers.set(key, value),
+    });
+    return config;
+  });
+}
@@ -0,0 +1,61 @@
+import { Context, propagation } from '@opentelemetry/api';
+import {
+  ReadableSpan,
+  Span,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { RedactionPolicy } from '../redaction';
+
+/**
+ * Lee del baggage de un contexto las entradas indicadas
+ * @param ctx Contexto del que se lee el baggage
+ * @param keys Claves del baggage a copiar
+ */
+export function getBaggageAttributes(
+  ctx: Context,
+  keys: string[],
+): Record<string, string> {
+  const baggage = propagation.getBaggage(ctx);
+  if (!baggage) {
+    return {};
+  }
+
+  return keys.reduce((attributes, key) => {
+    const entry = baggage.getEntry(key);
+    return entry ? { ...attributes, [key]: entry.value } : attributes;
+  }, {} as Record<string, string>);
+}
+
+/**
+ * Procesador que copia las entradas de baggage configuradas como atributos
+ * de todos los spans al iniciarse, incluidos los de la instrumentación
+ * automática, y delega el resto del ciclo de vida en otro procesador
+ */
+export class BaggageSpanProcessor implements SpanProcessor {
+  constructor(
+    private readonly delegate: SpanProcessor,
+    private readonly keys: string[],
+    private readonly redactionPolicy: RedactionPolicy,
+  ) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    span.setAttributes(
+      this.redactionPolicy.redactAttributes(
+        getBaggageAttributes(parentContext, this.keys),
+      ),
+    );
+    this.delegate.onStart(span, parentContext);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    this.delegate.onEnd(span);
+  }
+
+  forceFlush(): Promise<void> {
+    return this.delegate.forceFlush();
+  }
+
+  shutdown(): Promise<void> {
+    return this.delegate.shutdown();
+  }
+}
@@ -0,0 +1,7 @@
+/**
+ * Exportaciones de propagación de contexto del módulo de Tracing
+ */
+
+export * from './axios.interceptor';
+export * from './baggage-span.processor';
+export * from './propagator.factory';
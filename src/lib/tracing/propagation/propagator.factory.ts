@@ -0,0 +1,57 @@
+import { TextMapPropagator } from '@opentelemetry/api';
+import {
+  CompositePropagator,
+  W3CBaggagePropagator,
+  W3CTraceContextPropagator,
+} from '@opentelemetry/core';
+import { B3InjectEncoding, B3Propagator } from '@opentelemetry/propagator-b3';
+import { JaegerPropagator } from '@opentelemetry/propagator-jaeger';
+
+/**
+ * Formatos de propagación de contexto soportados
+ */
+export type PropagatorType =
+  | 'tracecontext'
+  | 'baggage'
+  | 'b3'
+  | 'b3multi'
+  | 'jaeger';
+
+/**
+ * Formatos de propagación admitidos en `OTEL_PROPAGATORS`
+ */
+export const PROPAGATOR_TYPES: PropagatorType[] = [
+  'tracecontext',
+  'baggage',
+  'b3',
+  'b3multi',
+  'jaeger',
+];
+
+/**
+ * Crea un propagador compuesto con los formatos indicados. Al inyectar se
+ * escriben las cabeceras de todos los formatos; al extraer se leen todos en
+ * orden y, si varios traen contexto, prevalece el último de la lista.
+ * @param types Formatos, de menor a mayor prioridad al extraer
+ */
+export function createPropagator(types: PropagatorType[]): TextMapPropagator {
+  const propagators = types.map(type => {
+    switch (type) {
+      case 'baggage':
+        return new W3CBaggagePropagator();
+      case 'b3':
+        return new B3Propagator();
+      case 'b3multi':
+        return new B3Propagator({
+          injectEncoding: B3InjectEncoding.MULTI_HEADER,
+        });
+      case 'jaeger':
+        return new JaegerPropagator();
+      case 'tracecontext':
+      default:
+        return new W3CTraceContextPropagator();
+    }
+  });
+
+  return new CompositePropagator({ propagators });
+}
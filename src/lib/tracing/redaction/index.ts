@@ -0,0 +1,5 @@
+/**
+ * Exportaciones de redacción del módulo de Tracing
+ */
+
+export * from './redaction.policy';
@@ -0,0 +1,236 @@
+import { AttributeValue, Attributes } from '@opentelemetry/api';
+
+/**
+ * Patrón de clave: una cadena coincide con segmentos completos de la clave
+ * (separados por `.`, `_`, `-` o camelCase) sin distinguir mayúsculas, de
+ * modo que 'auth' coincide con `auth.header` pero no con `author`; una
+ * expresión regular se evalúa contra la clave completa
+ */
+export type KeyPattern = string | RegExp;
+
+/**
+ * Patrón de valor con una comprobación adicional de cada coincidencia, que
+ * solo se redacta si `test` la acepta
+ */
+export interface ValueMatcher {
+  pattern: RegExp;
+  test: (match: string) => boolean;
+}
+
+export type ValuePattern = RegExp | ValueMatcher;
+
+export interface RedactionPolicyOptions {
+  // Claves cuyo valor se redacta por completo
+  keyPatterns?: KeyPattern[];
+  // Expresiones regulares cuyas coincidencias se redactan dentro de los valores
+  valuePatterns?: ValuePattern[];
+  // Claves que nunca se redactan (tienen prioridad sobre keyPatterns y valuePatterns)
+  allowedKeys?: KeyPattern[];
+  // Longitud máxima de un atributo de tipo texto
+  maxAttributeLength?: number;
+  // Texto que sustituye a los valores redactados
+  replacement?: string;
+}
+
+/**
+ * Claves sensibles redactadas por defecto
+ */
+export const DEFAULT_REDACTED_KEYS: KeyPattern[] = [
+  'password', 'token', 'secret', 'authorization', 'apiKey', 'privateKey',
+  'credential', 'credentials', 'auth', 'jwt', 'session', 'cookie', 'csrf',
+  'ssn', 'cc', 'card', 'cvv', 'pin',
+];
+
+/**
+ * Valores sensibles redactados por defecto: emails, números de tarjeta (solo
+ * si superan la comprobación de Luhn, para no redactar timestamps ni ids
+ * numéricos) y JWTs
+ */
+export const DEFAULT_REDACTED_VALUES: ValuePattern[] = [
+  /[\w.+-]+@[\w-]+(\.[\w-]+)+/g,
+  { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, test: isLuhnValid },
+  /\beyJ[\w-]*\.[\w-]+\.[\w-]*/g,
+];
+
+/**
+ * Política de redacción aplicada a todos los atributos que la librería
+ * escribe en los spans. Redacta por clave (de forma recursiva en objetos y
+ * arrays), por valor y trunca los textos demasiado largos.
+ */
+export class RedactionPolicy {
+  private readonly keyPatterns: KeyPattern[];
+  private readonly valuePatterns: ValuePattern[];
+  private readonly allowedKeys: KeyPattern[];
+  private readonly maxAttributeLength: number;
+  private readonly replacement: string;
+
+  constructor(options: RedactionPolicyOptions = {}) {
+    this.keyPatterns = options.keyPatterns ?? DEFAULT_REDACTED_KEYS;
+    this.valuePatterns = options.valuePatterns ?? DEFAULT_REDACTED_VALUES;
+    this.allowedKeys = options.allowedKeys ?? [];
+    this.maxAttributeLength = options.maxAttributeLength ?? 2048;
+    this.replacement = options.replacement ?? '[REDACTED]';
+  }
+
+  /**
+   * Redacta un valor arbitrario (objetos y arrays incluidos) sin modificar
+   * el original. Bajo una clave sensible se redacta cualquier valor, también
+   * los números (p. ej. `cvv` o `pin`); fuera de ellas, los números se
+   * redactan si coinciden con un patrón de valor (p. ej. un número de tarjeta)
+   * @param value Valor a redactar
+   * @param key Clave bajo la que se escribe el valor
+   */
+  redact(value: any, key?: string): any {
+    if (key !== undefined && this.isAllowed(key)) {
+      return value;
+    }
+    if (key !== undefined && this.isSensitive(key)) {
+      return this.replacement;
+    }
+
+    if (typeof value === 'boolean') {
+      return value;
+    }
+    if (typeof value === 'number') {
+      const serialized = String(value);
+      return this.redactString(serialized) === serialized
+        ? value
+        : this.replacement;
+    }
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.redact(item));
+    }
+    if (value !== null && typeof value === 'object' && !(value instanceof Date)) {
+      return Object.keys(value).reduce(
+        (redacted, childKey) => ({
+          ...redacted,
+          [childKey]: this.redact(value[childKey], childKey),
+        }),
+        {},
+      );
+    }
+    return value;
+  }
+
+  /**
+   * Redacta un atributo y lo convierte en un valor admitido por
+   * OpenTelemetry (los objetos se serializan a JSON)
+   * @param key Clave del atributo
+   * @param value Valor del atributo
+   * @returns El valor a escribir o undefined si no debe escribirse
+   */
+  redactAttribute(key: string, value: any): AttributeValue | undefined {
+    if (value === undefined || value === null) {
+      return undefined;
+    }
+
+    const redacted = this.redact(value, key);
+    if (
+      typeof redacted === 'number' ||
+      typeof redacted === 'boolean' ||
+      (Array.isArray(redacted) &&
+        redacted.every(item => typeof item === 'number'))
+    ) {
+      return redacted;
+    }
+
+    let serialized: string;
+    if (typeof redacted === 'string') {
+      serialized = redacted;
+    } else {
+      try {
+        serialized = JSON.stringify(redacted);
+      } catch {
+        serialized = '[Object]';
+      }
+    }
+    return this.truncate(serialized);
+  }
+
+  /**
+   * Redacta un conjunto de atributos, omitiendo los valores nulos
+   * @param attributes Atributos a redactar
+   */
+  redactAttributes(attributes?: Record<string, any>): Attributes {
+    return Object.keys(attributes || {}).reduce((redacted, key) => {
+      const value = this.redactAttribute(key, attributes[key]);
+      return value === undefined ? redacted : { ...redacted, [key]: value };
+    }, {} as Attributes);
+  }
+
+  private redactString(value: string): string {
+    return this.valuePatterns.reduce(
+      (redacted, valuePattern) =>
+        valuePattern instanceof RegExp
+          ? redacted.replace(valuePattern, this.replacement)
+          : redacted.replace(valuePattern.pattern, match =>
+              valuePattern.test(match) ? this.replacement : match,
+            ),
+      value,
+    );
+  }
+
+  private truncate(value: string): string {
+    return value.length > this.maxAttributeLength
+      ? `${value.slice(0, this.maxAttributeLength)}...[truncated]`
+      : value;
+  }
+
+  private isSensitive(key: string): boolean {
+    return this.keyPatterns.some(pattern => matchesKey(pattern, key));
+  }
+
+  private isAllowed(key: string): boolean {
+    return this.allowedKeys.some(pattern => matchesKey(pattern, key));
+  }
+}
+
+function matchesKey(pattern: KeyPattern, key: string): boolean {
+  if (typeof pattern !== 'string') {
+    return key.search(pattern) !== -1;
+  }
+
+  // Los segmentos del patrón deben aparecer seguidos en la clave
+  const patternSegments = splitKey(pattern);
+  const keySegments = splitKey(key);
+  return keySegments.some((_segment, start) =>
+    patternSegments.every(
+      (segment, index) => keySegments[start + index] === segment,
+    ),
+  );
+}
+
+/**
+ * Divide una clave en segmentos en minúsculas: `user.accessToken` y
+ * `user_access-token` dan ['user', 'access', 'token']
+ */
+function splitKey(key: string): string[] {
+  return key
+    .replace(/([a-z\d])([A-Z])/g, '$1.$2')
+    .toLowerCase()
+    .split(/[._\-\s]+/)
+    .filter(Boolean);
+}
+
+/**
+ * Comprobación de Luhn de los números de tarjeta (ignora espacios y guiones)
+ */
+function isLuhnValid(value: string): boolean {
+  const digits = value.replace(/\D/g, '');
+  let sum = 0;
+
+  for (let index = 0; index < digits.length; index++) {
+    let digit = Number(digits[digits.length - 1 - index]);
+    if (index % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
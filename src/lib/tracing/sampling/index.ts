@@ -0,0 +1,6 @@
+/**
+ * Exportaciones de muestreo del módulo de Tracing
+ */
+
+export * from './rule-based.sampler';
+export * from './tail-sampling.processor';
@@ -0,0 +1,166 @@
+import { Attributes, Context, Link, SpanKind } from '@opentelemetry/api';
+import {
+  Sampler,
+  SamplingDecision,
+  SamplingResult,
+  TraceIdRatioBasedSampler,
+} from '@opentelemetry/sdk-trace-base';
+import { SamplingRule } from '../tracing.config';
+
+/**
+ * Atributo que marca un span como forzado a muestrearse (cabecera de depuración)
+ */
+export const SAMPLING_DEBUG_ATTRIBUTE = 'sampling.debug';
+
+export interface RuleBasedSamplerOptions {
+  // Ratio aplicado cuando ninguna regla coincide
+  defaultRatio?: number;
+  rules?: SamplingRule[];
+  ignoredRoutes?: string[];
+  // Registrar (sin muestrear) los spans descartados para el tail sampling
+  recordDropped?: boolean;
+}
+
+interface CompiledRule {
+  route?: RegExp;
+  spanName?: RegExp;
+  sampler: Sampler;
+}
+
+/**
+ * Muestreador para trazas nuevas que decide según la ruta o el nombre del span:
+ * - siempre muestrea los spans marcados con la cabecera de depuración
+ * - nunca muestrea las rutas ignoradas (métricas, health checks...)
+ * - aplica el ratio de la primera regla que coincida o el ratio por defecto
+ */
+export class RuleBasedSampler implements Sampler {
+  private readonly rules: CompiledRule[];
+  private readonly ignoredRoutes: RegExp[];
+  private readonly defaultSampler: Sampler;
+
+  constructor(private readonly options: RuleBasedSamplerOptions = {}) {
+    this.rules = (options.rules || []).map(rule => ({
+      route: rule.route ? toPattern(rule.route) : undefined,
+      spanName: rule.spanName ? toPattern(rule.spanName) : undefined,
+      sampler: new TraceIdRatioBasedSampler(rule.ratio),
+    }));
+    this.ignoredRoutes = (options.ignoredRoutes || []).map(toPattern);
+    this.defaultSampler = new TraceIdRatioBasedSampler(
+      options.defaultRatio ?? 1,
+    );
+  }
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: Attributes,
+    links: Link[],
+  ): SamplingResult {
+    if (attributes?.[SAMPLING_DEBUG_ATTRIBUTE]) {
+      return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+    }
+
+    const route = getRoute(attributes);
+    if (route && this.ignoredRoutes.some(pattern => pattern.test(route))) {
+      return { decision: SamplingDecision.NOT_RECORD };
+    }
+
+    const rule = this.rules.find(
+      ({ route: routePattern, spanName: namePattern }) =>
+        (routePattern || namePattern) &&
+        (!routePattern || (route && routePattern.test(route))) &&
+        (!namePattern || namePattern.test(spanName)),
+    );
+    const result = (rule?.sampler || this.defaultSampler).shouldSample(
+      context,
+      traceId,
+      spanName,
+      spanKind,
+      attributes,
+      links,
+    );
+
+    if (
+      this.options.recordDropped &&
+      result.decision === SamplingDecision.NOT_RECORD
+    ) {
+      return { decision: SamplingDecision.RECORD };
+    }
+    return result;
+  }
+
+  toString(): string {
+    return `RuleBasedSampler{rules=${this.rules.length}, defaultRatio=${this.options.defaultRatio ?? 1}}`;
+  }
+}
+
+/**
+ * Muestreador que fuerza el muestreo de los spans marcados con la cabecera de
+ * depuración antes de delegar la decisión, de modo que también se muestrean
+ * cuando el padre remoto no está muestreado (ParentBasedSampler lo
+ * descartaría sin consultar al muestreador raíz)
+ */
+export class DebugHeaderSampler implements Sampler {
+  constructor(private readonly delegate: Sampler) {}
+
+  shouldSample(
+    context: Context,
+    traceId: string,
+    spanName: string,
+    spanKind: SpanKind,
+    attributes: Attributes,
+    links: Link[],
+  ): SamplingResult {
+    if (attributes?.[SAMPLING_DEBUG_ATTRIBUTE]) {
+      return { decision: SamplingDecision.RECORD_AND_SAMPLED };
+    }
+
+    return this.delegate.shouldSample(
+      context,
+      traceId,
+      spanName,
+      spanKind,
+      attributes,
+      links,
+    );
+  }
+
+  toString(): string {
+    return `DebugHeaderSampler{${this.delegate.toString()}}`;
+  }
+}
+
+/**
+ * Muestreador que registra los spans sin muestrearlos, para que el tail
+ * sampling pueda conservar los hijos de una traza descartada
+ */
+export class RecordOnlySampler implements Sampler {
+  shouldSample(): SamplingResult {
+    return { decision: SamplingDecision.RECORD };
+  }
+
+  toString(): string {
+    return 'RecordOnlySampler';
+  }
+}
+
+/**
+ * Obtiene la ruta de la petición (sin query string) de los atributos del span
+ */
+function getRoute(attributes: Attributes): string | undefined {
+  const route = attributes?.['http.route'] ?? attributes?.['http.target'];
+  return typeof route === 'string' ? route.split('?')[0] : undefined;
+}
+
+/**
+ * Convierte un patrón con comodines `*` en una expresión regular
+ */
+function toPattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}$`);
+}
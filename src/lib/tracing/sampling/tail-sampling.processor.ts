@@ -0,0 +1,136 @@
+import { Context, SpanStatusCode, TraceFlags } from '@opentelemetry/api';
+import { hrTimeToMilliseconds } from '@opentelemetry/core';
+import {
+  ReadableSpan,
+  Span,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+
+export interface TailSamplingOptions {
+  // Duración (ms) del span raíz a partir de la cual se conserva la traza
+  latencyThresholdMs?: number;
+  // Número máximo de trazas en el buffer
+  maxBufferedTraces?: number;
+  // Tiempo máximo (ms) que una traza permanece en el buffer, p. ej. si su
+  // span raíz no llega a finalizar
+  maxTraceAgeMs?: number;
+}
+
+interface BufferedTrace {
+  spanIds: Set<string>;
+  spans: ReadableSpan[];
+  // Momento (ms) en que se añadió la traza al buffer
+  bufferedAt: number;
+}
+
+/**
+ * Procesador que mantiene en memoria los spans de las trazas descartadas por
+ * el muestreo inicial. Al finalizar el span raíz local, reenvía la traza
+ * completa al procesador delegado si algún span terminó con error o si la
+ * duración supera el umbral de latencia; en otro caso la descarta.
+ */
+export class TailSamplingSpanProcessor implements SpanProcessor {
+  private readonly traces = new Map<string, BufferedTrace>();
+
+  constructor(
+    private readonly delegate: SpanProcessor,
+    private readonly options: TailSamplingOptions = {},
+  ) {}
+
+  onStart(span: Span, parentContext: Context): void {
+    if (isSampled(span)) {
+      this.delegate.onStart(span, parentContext);
+      return;
+    }
+
+    const { traceId, spanId } = span.spanContext();
+    let buffered = this.traces.get(traceId);
+    if (!buffered) {
+      this.evictExpiredTraces();
+      // Descartar la traza más antigua si el buffer está lleno
+      if (this.traces.size >= (this.options.maxBufferedTraces || 1000)) {
+        this.traces.delete(this.traces.keys().next().value);
+      }
+      buffered = { spanIds: new Set(), spans: [], bufferedAt: Date.now() };
+      this.traces.set(traceId, buffered);
+    }
+    buffered.spanIds.add(spanId);
+  }
+
+  onEnd(span: ReadableSpan): void {
+    if (isSampled(span)) {
+      this.delegate.onEnd(span);
+      return;
+    }
+
+    const { traceId } = span.spanContext();
+    const buffered = this.traces.get(traceId);
+    if (!buffered) {
+      return;
+    }
+    buffered.spans.push(span);
+
+    // Esperar a que finalice el span raíz local de la traza
+    if (span.parentSpanId && buffered.spanIds.has(span.parentSpanId)) {
+      return;
+    }
+
+    this.traces.delete(traceId);
+    if (this.shouldKeep(buffered.spans, span)) {
+      buffered.spans.forEach(bufferedSpan =>
+        this.delegate.onEnd(asSampled(bufferedSpan)),
+      );
+    }
+  }
+
+  forceFlush(): Promise<void> {
+    return this.delegate.forceFlush();
+  }
+
+  shutdown(): Promise<void> {
+    this.traces.clear();
+    return this.delegate.shutdown();
+  }
+
+  /**
+   * Descarta las trazas que superan `maxTraceAgeMs`. El Map conserva el
+   * orden de inserción, por lo que basta con recorrerlo hasta la primera
+   * traza vigente.
+   */
+  private evictExpiredTraces(): void {
+    const expiredBefore = Date.now() - (this.options.maxTraceAgeMs ?? 60_000);
+
+    for (const [traceId, buffered] of this.traces) {
+      if (buffered.bufferedAt > expiredBefore) {
+        return;
+      }
+      this.traces.delete(traceId);
+    }
+  }
+
+  private shouldKeep(spans: ReadableSpan[], root: ReadableSpan): boolean {
+    const threshold = this.options.latencyThresholdMs;
+
+    return (
+      spans.some(span => span.status.code === SpanStatusCode.ERROR) ||
+      (threshold !== undefined && hrTimeToMilliseconds(root.duration) >= threshold)
+    );
+  }
+}
+
+function isSampled(span: { spanContext(): { traceFlags: number } }): boolean {
+  return (span.spanContext().traceFlags & TraceFlags.SAMPLED) !== 0;
+}
+
+/**
+ * Devuelve una vista del span marcada como muestreada, para que el
+ * procesador delegado la exporte
+ */
+function asSampled(span: ReadableSpan): ReadableSpan {
+  const spanContext = {
+    ...span.spanContext(),
+    traceFlags: span.spanContext().traceFlags | TraceFlags.SAMPLED,
+  };
+
+  return Object.create(span, { spanContext: { value: () => spanContext } });
+}
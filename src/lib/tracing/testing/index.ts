@@ -0,0 +1,6 @@
+/**
+ * Exportaciones de las utilidades de test del módulo de Tracing
+ */
+
+export * from './span.assertion';
+export * from './tracing-testing.module';
@@ -0,0 +1,96 @@
+import { AttributeValue, SpanStatusCode } from '@opentelemetry/api';
+import { ReadableSpan } from '@opentelemetry/sdk-trace-base';
+import { isDeepStrictEqual } from 'util';
+
+/**
+ * Aserciones sobre un span finalizado, encadenables:
+ * `expectSpan('tasks.findAll').toHaveAttribute('tasks.count', 2).toBeChildOf('GET /tasks')`.
+ * Los errores se lanzan como excepciones, por lo que funcionan con cualquier
+ * framework de tests.
+ */
+export class SpanAssertion {
+  constructor(
+    readonly span: ReadableSpan,
+    private readonly finishedSpans: ReadableSpan[],
+  ) {}
+
+  /**
+   * Comprueba que el span tiene el atributo y, si se indica, con ese valor
+   * @param key Nombre del atributo
+   * @param value Valor esperado (se compara en profundidad)
+   */
+  toHaveAttribute(key: string, value?: AttributeValue): this {
+    const attributes = this.span.attributes;
+
+    if (!(key in attributes)) {
+      throw new Error(
+        `El span '${this.span.name}' no tiene el atributo '${key}'. Atributos: ${JSON.stringify(attributes)}`,
+      );
+    }
+    if (value !== undefined && !isDeepStrictEqual(attributes[key], value)) {
+      throw new Error(
+        `El atributo '${key}' del span '${this.span.name}' vale ${JSON.stringify(attributes[key])}, se esperaba ${JSON.stringify(value)}`,
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Comprueba que el span es hijo directo de otro span finalizado
+   * @param parent Nombre del span padre o el propio span
+   */
+  toBeChildOf(parent: string | ReadableSpan): this {
+    const parentName = typeof parent === 'string' ? parent : parent.name;
+    const candidates =
+      typeof parent === 'string'
+        ? this.finishedSpans.filter(span => span.name === parent)
+        : [parent];
+
+    if (!candidates.length) {
+      throw new Error(
+        `No se encontró el span padre '${parentName}'. Spans finalizados: ${describeSpans(this.finishedSpans)}`,
+      );
+    }
+
+    const { traceId } = this.span.spanContext();
+    const isChild = candidates.some(
+      candidate =>
+        candidate.spanContext().traceId === traceId &&
+        candidate.spanContext().spanId === this.span.parentSpanId,
+    );
+    if (!isChild) {
+      const actualParent = this.finishedSpans.find(
+        span => span.spanContext().spanId === this.span.parentSpanId,
+      );
+      throw new Error(
+        `El span '${this.span.name}' no es hijo de '${parentName}' (padre: ${
+          actualParent ? `'${actualParent.name}'` : 'ninguno'
+        })`,
+      );
+    }
+    return this;
+  }
+
+  /**
+   * Comprueba el estado del span
+   * @param code Código de estado esperado (OK, ERROR o UNSET)
+   */
+  toHaveStatus(code: SpanStatusCode): this {
+    if (this.span.status.code !== code) {
+      throw new Error(
+        `El span '${this.span.name}' tiene el estado ${SpanStatusCode[this.span.status.code]}, se esperaba ${SpanStatusCode[code]}`,
+      );
+    }
+    return this;
+  }
+}
+
+/**
+ * Lista los nombres de los spans para los mensajes de error
+ * @internal
+ */
+export function describeSpans(spans: ReadableSpan[]): string {
+  return spans.length
+    ? spans.map(span => `'${span.name}'`).join(', ')
+    : 'ninguno';
+}
@@ -0,0 +1,141 @@
+import {
+  DynamicModule,
+  Global,
+  Injectable,
+  Module,
+  OnModuleDestroy,
+} from '@nestjs/common';
+import { ConfigModule } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
+import { context } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import tracingConfig, { TracingConfig } from '../tracing.config';
+import { TraceExplorer } from '../tracing.explorer';
+import { TracingService } from '../tracing.service';
+import { describeSpans, SpanAssertion } from './span.assertion';
+
+/**
+ * Gestor de contexto global compartido por todos los módulos de test, para
+ * que los spans anidados (trace(), @Trace...) tengan a su padre como activo
+ */
+let contextManagerRegistered = false;
+
+/**
+ * Acceso a los spans finalizados por la aplicación bajo test. Cada módulo de
+ * test tiene su propio exportador en memoria, que se vacía al cerrarlo.
+ */
+@Injectable()
+export class TracingTestingService implements OnModuleDestroy {
+  constructor(private readonly exporter: InMemorySpanExporter) {}
+
+  /**
+   * Obtiene los spans finalizados, en orden de finalización
+   * @param name Filtra por nombre del span (opcional)
+   */
+  getFinishedSpans(name?: string): ReadableSpan[] {
+    const spans = this.exporter.getFinishedSpans();
+    return name ? spans.filter(span => span.name === name) : spans;
+  }
+
+  /**
+   * Devuelve las aserciones sobre el último span finalizado con ese nombre.
+   * Falla si no se ha finalizado ninguno.
+   * @param name Nombre del span (p. ej. 'TasksService.findAll')
+   */
+  expectSpan(name: string): SpanAssertion {
+    const finishedSpans = this.getFinishedSpans();
+    const spans = finishedSpans.filter(span => span.name === name);
+
+    if (!spans.length) {
+      throw new Error(
+        `No se encontró ningún span '${name}'. Spans finalizados: ${describeSpans(finishedSpans)}`,
+      );
+    }
+    return new SpanAssertion(spans[spans.length - 1], finishedSpans);
+  }
+
+  /**
+   * Descarta los spans finalizados, p. ej. en un afterEach cuando el módulo
+   * se comparte entre tests
+   */
+  reset(): void {
+    this.exporter.reset();
+  }
+
+  onModuleDestroy() {
+    this.reset();
+  }
+}
+
+/**
+ * Módulo de tracing para tests unitarios y e2e: sustituye el SDK y sus
+ * exportadores por un InMemorySpanExporter con un SimpleSpanProcessor, de
+ * modo que los spans se pueden comprobar sin Jaeger ni colector.
+ *
+ * @example
+ * const moduleRef = await Test.createTestingModule({
+ *   imports: [TracingTestingModule.forRoot()],
+ *   providers: [TasksService],
+ * }).compile();
+ * await moduleRef.init();
+ *
+ * await moduleRef.get(TasksService).findAll();
+ * moduleRef.get(TracingTestingService).expectSpan('TasksService.findAll');
+ */
+@Global()
+@Module({})
+export class TracingTestingModule {
+  /**
+   * @param options Configuración de tracing (redacción, nombre del
+   * servicio...). El tracing siempre está habilitado y sin instrumentaciones.
+   */
+  static forRoot(options: Partial<TracingConfig> = {}): DynamicModule {
+    if (!contextManagerRegistered) {
+      // Devuelve false si otro gestor ya estaba registrado, que también sirve
+      context.setGlobalContextManager(
+        new AsyncLocalStorageContextManager().enable(),
+      );
+      contextManagerRegistered = true;
+    }
+
+    return {
+      module: TracingTestingModule,
+      imports: [ConfigModule.forFeature(tracingConfig), DiscoveryModule],
+      providers: [
+        {
+          provide: 'TRACING_OPTIONS',
+          useValue: {
+            ...options,
+            enabled: true,
+            instrumentHttp: false,
+            instrumentDb: false,
+            instrumentMessaging: false,
+          },
+        },
+        {
+          provide: InMemorySpanExporter,
+          useFactory: () => new InMemorySpanExporter(),
+        },
+        {
+          provide: 'TRACING_TRACER_PROVIDER',
+          inject: [InMemorySpanExporter],
+          useFactory: (exporter: InMemorySpanExporter) => {
+            const provider = new BasicTracerProvider();
+            provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+            return provider;
+          },
+        },
+        TracingService,
+        TraceExplorer,
+        TracingTestingService,
+      ],
+      exports: [TracingService, TracingTestingService],
+    };
+  }
+}
@@ -1,4 +1,102 @@
+import { Logger } from '@nestjs/common';
 import { registerAs } from '@nestjs/config';
+import { Registry } from 'prom-client';
+import { PROPAGATOR_TYPES, PropagatorType } from './propagation';
+import { RedactionPolicy, RedactionPolicyOptions } from './redaction';
+
+const logger = new Logger('TracingConfig');
+
+/**
+ * Regla de muestreo aplicada a las trazas nuevas. Los patrones admiten el
+ * comodín `*` (cualquier secuencia de caracteres).
+ */
+export interface SamplingRule {
+  // Patrón de la ruta HTTP (p. ej. '/api/orders/*')
+  route?: string;
+  // Patrón del nombre del span (p. ej. 'OrdersService.*')
+  spanName?: string;
+  // Ratio de muestreo entre 0 y 1
+  ratio: number;
+}
+
+export interface TracingSamplingOptions {
+  // Reglas evaluadas en orden; se aplica la primera que coincida
+  rules?: SamplingRule[];
+  // Cabecera que fuerza el muestreo de la petición, aunque el padre remoto
+  // no esté muestreado (por defecto 'x-debug-trace')
+  debugHeader?: string;
+  // Rutas que nunca se muestrean (por defecto '/metrics*' y '/health*')
+  ignoredRoutes?: string[];
+  // Buffer en memoria que conserva las trazas descartadas con errores o lentas
+  tailSampling?: {
+    enabled: boolean;
+    // Duración (ms) del span raíz a partir de la cual se conserva la traza
+    latencyThresholdMs?: number;
+    // Número máximo de trazas en el buffer (por defecto 1000)
+    maxBufferedTraces?: number;
+    // Tiempo máximo (ms) de una traza en el buffer (por defecto 60000)
+    maxTraceAgeMs?: number;
+  };
+}
+
+export type TracingExporterType =
+  | 'otlp'
+  | 'jaeger'
+  | 'zipkin'
+  | 'console'
+  | 'file';
+
+/**
+ * Exportadores admitidos en `OTEL_EXPORTERS`
+ */
+export const TRACING_EXPORTER_TYPES: TracingExporterType[] = [
+  'otlp',
+  'jaeger',
+  'zipkin',
+  'console',
+  'file',
+];
+
+/**
+ * Opciones del procesador en lotes de un exportador
+ */
+export interface TracingBatchOptions {
+  // Tamaño máximo del lote antes de enviar
+  maxExportBatchSize?: number;
+  // Tiempo máximo en ms que los spans pueden permanecer en el buffer
+  scheduledDelayMillis?: number;
+  // Tamaño máximo del buffer en memoria
+  maxQueueSize?: number;
+  // Exportar todo en la finalización del proceso
+  exportTimeoutMillis?: number;
+}
+
+/**
+ * Exportador de `exporters`. Sin `batch`, usa `spanProcessorOptions`
+ */
+export type TracingExporterOptions =
+  | {
+      type: 'otlp' | 'jaeger' | 'zipkin';
+      // Endpoint del exportador (por defecto otlpEndpoint, jaegerEndpoint o zipkinEndpoint)
+      endpoint?: string;
+      batch?: TracingBatchOptions;
+    }
+  | {
+      // Árboles de spans por traza en la salida estándar, para desarrollo local
+      type: 'console';
+      batch?: TracingBatchOptions;
+    }
+  | {
+      // Spans en NDJSON en disco, con rotación, para depurar sin conexión
+      type: 'file';
+      // Ruta del fichero (por defecto 'traces/spans.ndjson')
+      path?: string;
+      // Tamaño en bytes a partir del cual se rota (por defecto 10 MB)
+      maxFileSize?: number;
+      // Ficheros rotados que se conservan (por defecto 5)
+      maxFiles?: number;
+      batch?: TracingBatchOptions;
+    };
 
 export interface TracingConfig {
   enabled: boolean;
@@ -7,13 +105,23 @@ export interface TracingConfig {
   environment: string;
 
   // Tipo de exportador a utilizar
-  exporter: 'otlp' | 'jaeger' | 'zipkin';
+  exporter: TracingExporterType;
+
+  // Exportadores habilitados a la vez, cada uno con su propio procesador en
+  // lotes. Si se indica, sustituye a `exporter`
+  exporters?: TracingExporterOptions[];
 
   // Endpoints para los diferentes exportadores
   otlpEndpoint?: string;
   jaegerEndpoint?: string;
   zipkinEndpoint?: string;
 
+  // Formatos de propagación de contexto (por defecto W3C Trace Context + Baggage)
+  propagators?: PropagatorType[];
+
+  // Claves de baggage que se copian como atributos en los spans y en los logs
+  baggageKeys?: string[];
+
   // Opciones de instrumentación
   instrumentHttp: boolean;
   instrumentDb: boolean;
@@ -21,18 +129,25 @@ export interface TracingConfig {
 
   // Opciones de muestreo
   samplingRatio?: number;
-  
-  // Opciones del procesador de spans en lotes
-  spanProcessorOptions?: {
-    // Tamaño máximo del lote antes de enviar
-    maxExportBatchSize?: number;
-    // Tiempo máximo en ms que los spans pueden permanecer en el buffer
-    scheduledDelayMillis?: number;
-    // Tamaño máximo del buffer en memoria
-    maxQueueSize?: number;
-    // Exportar todo en la finalización del proceso
-    exportTimeoutMillis?: number;
+  sampling?: TracingSamplingOptions;
+
+  // Exportación por OTLP de las métricas de prom-client, con el mismo
+  // Resource y colector que las trazas
+  metrics?: {
+    enabled: boolean;
+    // Intervalo de exportación en ms
+    exportIntervalMillis?: number;
+    // Endpoint OTLP de métricas (por defecto `${otlpEndpoint}/v1/metrics`)
+    endpoint?: string;
+    // Registros de prom-client a exportar (por defecto el registro global)
+    registries?: Registry[];
   };
+
+  // Política de redacción de los atributos de los spans
+  redaction?: RedactionPolicyOptions | RedactionPolicy;
+
+  // Opciones del procesador de spans en lotes
+  spanProcessorOptions?: TracingBatchOptions;
 }
 
 export default registerAs('tracing', () => ({
@@ -43,6 +158,11 @@ export default registerAs('tracing', () => ({
 
   // Tipo de exportador (por defecto OTLP)
   exporter: process.env.OTEL_EXPORTER || 'otlp',
+  // Varios exportadores a la vez, p. ej. 'otlp,jaeger,console'
+  exporters: parseExporters(
+    process.env.OTEL_EXPORTERS,
+    process.env.OTEL_EXPORTER_FILE_PATH,
+  ),
 
   // Endpoints para los diferentes exportadores
   otlpEndpoint:
@@ -54,6 +174,15 @@ export default registerAs('tracing', () => ({
     process.env.OTEL_EXPORTER_ZIPKIN_ENDPOINT ||
     'http://localhost:9411/api/v2/spans',
 
+  // Formatos de propagación de contexto
+  propagators: parsePropagators(
+    process.env.OTEL_PROPAGATORS || 'tracecontext,baggage',
+  ),
+  baggageKeys: (process.env.OTEL_BAGGAGE_KEYS || '')
+    .split(',')
+    .map(key => key.trim())
+    .filter(Boolean),
+
   // Opciones de instrumentación
   instrumentHttp: process.env.OTEL_INSTRUMENT_HTTP !== 'false',
   instrumentDb: process.env.OTEL_INSTRUMENT_DB !== 'false',
@@ -61,7 +190,49 @@ export default registerAs('tracing', () => ({
 
   // Opciones de muestreo
   samplingRatio: parseFloat(process.env.OTEL_SAMPLING_RATIO || '1.0'),
-  
+  sampling: {
+    rules: parseSamplingRules(process.env.OTEL_SAMPLING_RULES),
+    debugHeader: process.env.OTEL_SAMPLING_DEBUG_HEADER || 'x-debug-trace',
+    ignoredRoutes: (
+      process.env.OTEL_SAMPLING_IGNORED_ROUTES || '/metrics*,/health*'
+    )
+      .split(',')
+      .map(route => route.trim())
+      .filter(Boolean),
+    tailSampling: {
+      enabled: process.env.OTEL_TAIL_SAMPLING_ENABLED === 'true',
+      latencyThresholdMs: process.env.OTEL_TAIL_SAMPLING_LATENCY_THRESHOLD_MS
+        ? parseInt(process.env.OTEL_TAIL_SAMPLING_LATENCY_THRESHOLD_MS, 10)
+        : undefined,
+      maxBufferedTraces: parseInt(
+        process.env.OTEL_TAIL_SAMPLING_MAX_TRACES || '1000',
+        10,
+      ),
+      maxTraceAgeMs: parseInt(
+        process.env.OTEL_TAIL_SAMPLING_MAX_TRACE_AGE_MS || '60000',
+        10,
+      ),
+    },
+  },
+
+  // Exportación de métricas por OTLP
+  metrics: {
+    enabled: process.env.OTEL_METRICS_ENABLED === 'true',
+    exportIntervalMillis: parseInt(
+      process.env.OTEL_METRICS_INTERVAL_MS || '15000',
+      10,
+    ),
+    endpoint: process.env.OTEL_EXPORTER_OTLP_METRICS_ENDPOINT,
+  },
+
+  // Política de redacción de atributos
+  redaction: {
+    maxAttributeLength: parseInt(
+      process.env.OTEL_ATTRIBUTE_VALUE_LENGTH_LIMIT || '2048',
+      10,
+    ),
+  },
+
   // Configuración del procesador de spans en lotes para optimizar rendimiento
   spanProcessorOptions: {
     maxExportBatchSize: parseInt(process.env.OTEL_BSP_MAX_EXPORT_BATCH_SIZE || '512', 10),
@@ -70,3 +241,129 @@ export default registerAs('tracing', () => ({
     exportTimeoutMillis: parseInt(process.env.OTEL_BSP_EXPORT_TIMEOUT_MILLIS || '30000', 10),
   },
 }));
+
+/**
+ * Lee las reglas de muestreo de una variable de entorno en formato JSON,
+ * p. ej. '[{"route":"/api/orders/*","ratio":0.5}]'
+ */
+function parseSamplingRules(value?: string): SamplingRule[] {
+  if (!value) {
+    return [];
+  }
+
+  let rules: unknown;
+  try {
+    rules = JSON.parse(value);
+  } catch (error) {
+    logger.warn(
+      `OTEL_SAMPLING_RULES no es un JSON válido, se ignoran las reglas: ${error.message}`,
+    );
+    return [];
+  }
+
+  if (!Array.isArray(rules)) {
+    logger.warn(
+      'OTEL_SAMPLING_RULES debe ser un array de reglas, se ignoran las reglas',
+    );
+    return [];
+  }
+
+  return rules.filter((rule, index) => {
+    const ratio = rule?.ratio;
+    if (typeof ratio !== 'number' || ratio < 0 || ratio > 1) {
+      logger.warn(
+        `Se ignora la regla ${index} de OTEL_SAMPLING_RULES: el ratio debe ser un número entre 0 y 1`,
+      );
+      return false;
+    }
+    return true;
+  });
+}
+
+/**
+ * Lee los formatos de propagación de OTEL_PROPAGATORS. Los formatos
+ * desconocidos se ignoran con un aviso; si no queda ninguno se usan los
+ * formatos por defecto.
+ */
+function parsePropagators(value: string): PropagatorType[] | undefined {
+  const propagators = value
+    .split(',')
+    .map(propagator => propagator.trim())
+    .filter(Boolean)
+    .filter(propagator => {
+      if (!PROPAGATOR_TYPES.includes(propagator as PropagatorType)) {
+        logger.warn(
+          `Se ignora el propagador desconocido '${propagator}' de OTEL_PROPAGATORS (admitidos: ${PROPAGATOR_TYPES.join(', ')})`,
+        );
+        return false;
+      }
+      return true;
+    }) as PropagatorType[];
+
+  return propagators.length ? propagators : undefined;
+}
+
+/**
+ * Combina la configuración tomada de las variables de entorno con la
+ * indicada en código. Las opciones anidadas (`sampling`, `metrics` y
+ * `redaction`) se combinan un nivel más, de modo que indicar p. ej. solo
+ * `sampling.rules` conserva el resto de opciones de muestreo.
+ */
+export function mergeTracingConfig(
+  base: Partial<TracingConfig> = {},
+  overrides: Partial<TracingConfig> = {},
+): TracingConfig {
+  const config = { ...base, ...overrides } as TracingConfig;
+
+  if (overrides.sampling) {
+    config.sampling = { ...base.sampling, ...overrides.sampling };
+  }
+  if (overrides.metrics) {
+    config.metrics = { ...base.metrics, ...overrides.metrics };
+  }
+  // Una política ya construida sustituye a las opciones de entorno
+  if (
+    overrides.redaction &&
+    !(overrides.redaction instanceof RedactionPolicy)
+  ) {
+    config.redaction = {
+      ...(base.redaction as RedactionPolicyOptions),
+      ...overrides.redaction,
+    };
+  }
+
+  return config;
+}
+
+/**
+ * Lee la lista de exportadores de una variable de entorno separada por comas,
+ * p. ej. 'otlp,console,file'. Los exportadores desconocidos se ignoran con un
+ * aviso. Devuelve undefined si no queda ninguno, para usar `exporter`
+ */
+function parseExporters(
+  value?: string,
+  filePath?: string,
+): TracingExporterOptions[] | undefined {
+  const types = (value || '')
+    .split(',')
+    .map(type => type.trim())
+    .filter(Boolean)
+    .filter(type => {
+      if (!TRACING_EXPORTER_TYPES.includes(type as TracingExporterType)) {
+        logger.warn(
+          `Se ignora el exportador desconocido '${type}' de OTEL_EXPORTERS (admitidos: ${TRACING_EXPORTER_TYPES.join(', ')})`,
+        );
+        return false;
+      }
+      return true;
+    });
+  if (!types.length) {
+    return undefined;
+  }
+
+  return types.map(type =>
+    type === 'file'
+      ? { type, path: filePath }
+      : ({ type } as TracingExporterOptions),
+  );
+}
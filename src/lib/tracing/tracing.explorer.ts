@@ -0,0 +1,78 @@
+import {
+  Injectable,
+  Logger,
+  OnApplicationShutdown,
+  OnModuleInit,
+} from '@nestjs/common';
+import { DiscoveryService, MetadataScanner } from '@nestjs/core';
+import { TracingService } from './tracing.service';
+import {
+  registerTracingService,
+  TRACE_METADATA,
+  unregisterTracingService,
+} from './decorators/trace.decorator';
+
+/**
+ * Recorre los proveedores y controladores de la aplicación al arrancar y
+ * asocia el servicio de tracing a cada instancia que tenga métodos
+ * decorados con @Trace, incluidos los heredados de clases base. Como
+ * TracingModule es global, se ejecuta antes que el onModuleInit del resto
+ * de módulos.
+ */
+@Injectable()
+export class TraceExplorer implements OnModuleInit, OnApplicationShutdown {
+  private readonly logger = new Logger(TraceExplorer.name);
+  private readonly registered: object[] = [];
+
+  constructor(
+    private readonly discoveryService: DiscoveryService,
+    private readonly metadataScanner: MetadataScanner,
+    private readonly tracingService: TracingService,
+  ) {}
+
+  onModuleInit() {
+    const wrappers = [
+      ...this.discoveryService.getProviders(),
+      ...this.discoveryService.getControllers(),
+    ];
+
+    wrappers.forEach(wrapper => {
+      const { instance, metatype } = wrapper;
+
+      // Las instancias con scope REQUEST/TRANSIENT se crean más tarde: se
+      // registra su clase
+      const target =
+        wrapper.isDependencyTreeStatic() && !wrapper.isTransient
+          ? instance
+          : metatype;
+      const prototype =
+        typeof target === 'function'
+          ? target.prototype
+          : target && typeof target === 'object'
+            ? Object.getPrototypeOf(target)
+            : undefined;
+      if (!prototype || !this.hasTracedMethods(prototype)) {
+        return;
+      }
+
+      registerTracingService(target, this.tracingService);
+      this.registered.push(target);
+    });
+
+    this.logger.debug(
+      `Clases con métodos @Trace registradas: ${this.registered.length}`,
+    );
+  }
+
+  onApplicationShutdown() {
+    this.registered.splice(0).forEach(unregisterTracingService);
+  }
+
+  private hasTracedMethods(prototype: object): boolean {
+    return this.metadataScanner
+      .getAllMethodNames(prototype)
+      .some(methodName =>
+        Reflect.hasMetadata(TRACE_METADATA, prototype[methodName]),
+      );
+  }
+}
@@ -1,8 +1,16 @@
-import { DynamicModule, Global, Module, OnModuleInit } from '@nestjs/common';
+import {
+  DynamicModule,
+  Global,
+  Module,
+  ModuleMetadata,
+  OnModuleInit,
+} from '@nestjs/common';
 import { ConfigModule, ConfigService } from '@nestjs/config';
+import { DiscoveryModule } from '@nestjs/core';
 import tracingConfig from './tracing.config';
 import { TracingConfig } from './tracing.config';
 import { TracingService } from './tracing.service';
+import { TraceExplorer } from './tracing.explorer';
 
 @Global()
 @Module({})
@@ -12,19 +20,26 @@ export class TracingModule implements OnModuleInit {
   static forRoot(): DynamicModule {
     return {
       module: TracingModule,
-      imports: [ConfigModule.forFeature(tracingConfig)],
-      providers: [TracingService],
+      imports: [ConfigModule.forFeature(tracingConfig), DiscoveryModule],
+      providers: [TracingService, TraceExplorer],
       exports: [TracingService],
     };
   }
 
   static forRootAsync(options: {
-    useFactory: (...args: any[]) => Partial<TracingConfig>;
+    imports?: ModuleMetadata['imports'];
+    useFactory: (
+      ...args: any[]
+    ) => Promise<Partial<TracingConfig>> | Partial<TracingConfig>;
     inject?: any[];
   }): DynamicModule {
     return {
       module: TracingModule,
-      imports: [ConfigModule.forFeature(tracingConfig)],
+      imports: [
+        ConfigModule.forFeature(tracingConfig),
+        DiscoveryModule,
+        ...(options.imports || []),
+      ],
       providers: [
         {
           provide: 'TRACING_OPTIONS',
@@ -32,6 +47,7 @@ export class TracingModule implements OnModuleInit {
           inject: options.inject || [],
         },
         TracingService,
+        TraceExplorer,
       ],
       exports: [TracingService],
     };
@@ -1,16 +1,26 @@
 import { Inject, Injectable, Logger, Optional } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
-import { TracingConfig } from './tracing.config';
+import {
+  mergeTracingConfig,
+  TracingConfig,
+  TracingExporterOptions,
+} from './tracing.config';
 import { NodeSDK } from '@opentelemetry/sdk-node';
 import { Resource } from '@opentelemetry/resources';
 import { SemanticResourceAttributes } from '@opentelemetry/semantic-conventions';
 import {
   BatchSpanProcessor,
+  SpanExporter,
   SpanProcessor,
   ParentBasedSampler,
-  TraceIdRatioBasedSampler,
+  Sampler,
 } from '@opentelemetry/sdk-trace-base';
 import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { OTLPMetricExporter } from '@opentelemetry/exporter-metrics-otlp-http';
+import {
+  MetricReader,
+  PeriodicExportingMetricReader,
+} from '@opentelemetry/sdk-metrics';
 import { JaegerExporter } from '@opentelemetry/exporter-jaeger';
 import { ZipkinExporter } from '@opentelemetry/exporter-zipkin';
 import { NestInstrumentation } from '@opentelemetry/instrumentation-nestjs-core';
@@ -25,27 +35,80 @@ import { MySQLInstrumentation } from '@opentelemetry/instrumentation-mysql';
 import { RedisInstrumentation } from '@opentelemetry/instrumentation-redis';
 import { AmqplibInstrumentation } from '@opentelemetry/instrumentation-amqplib';
 import { KafkaJsInstrumentation } from '@opentelemetry/instrumentation-kafkajs';
-import { trace, SpanStatusCode, Span, propagation } from '@opentelemetry/api';
-import { W3CTraceContextPropagator } from '@opentelemetry/core';
+import {
+  context,
+  trace,
+  SpanStatusCode,
+  Span,
+  propagation,
+  INVALID_SPAN_CONTEXT,
+  Context,
+  TextMapGetter,
+  TextMapSetter,
+  TracerProvider,
+  defaultTextMapGetter,
+  defaultTextMapSetter,
+} from '@opentelemetry/api';
 import { InstrumentationOption } from '@opentelemetry/instrumentation';
+import {
+  ConsoleTreeSpanExporter,
+  FanOutSpanProcessor,
+  FileSpanExporter,
+  SpanExportStatus,
+  TrackedSpanExporter,
+} from './exporters';
+import { BaggageSpanProcessor, createPropagator } from './propagation';
+import { PrometheusMetricProducer } from './metrics';
+import { RedactionPolicy } from './redaction';
+import {
+  DebugHeaderSampler,
+  RecordOnlySampler,
+  RuleBasedSampler,
+  SAMPLING_DEBUG_ATTRIBUTE,
+  TailSamplingSpanProcessor,
+} from './sampling';
 
 @Injectable()
 export class TracingService {
   private readonly logger = new Logger(TracingService.name);
   private sdk: NodeSDK;
-  private isInitialized = false;
+  private initialized = false;
+  // Resultado de la última exportación de cada exportador
+  private readonly exportStatuses = new Map<
+    TracingExporterOptions,
+    SpanExportStatus
+  >();
+  private readonly redactionPolicy: RedactionPolicy;
 
   constructor(
     private readonly configService: ConfigService,
     @Optional()
     @Inject('TRACING_OPTIONS')
     private readonly options?: Partial<TracingConfig>,
+    // Proveedor de trazas ya configurado (p. ej. el de TracingTestingModule).
+    // Cuando se indica, los spans se crean con él y no se arranca el SDK
+    @Optional()
+    @Inject('TRACING_TRACER_PROVIDER')
+    private readonly tracerProvider?: TracerProvider,
   ) {
     const config = this.getConfig();
+    this.redactionPolicy =
+      config.redaction instanceof RedactionPolicy
+        ? config.redaction
+        : new RedactionPolicy(config.redaction);
 
-    if (config.enabled) {
+    if (config.enabled && tracerProvider) {
+      this.logger.log(
+        'Usando un proveedor de trazas externo, el SDK no se inicia',
+      );
+      this.sdk = new NodeSDK({});
+      this.initialized = true;
+    } else if (config.enabled) {
+      const exporterTypes = this.getExporters(config).map(
+        exporter => exporter.type,
+      );
       this.logger.log(
-        `Inicializando OpenTelemetry con exportador: ${config.exporter}`,
+        `Inicializando OpenTelemetry con exportadores: ${exporterTypes.join(', ')}`,
       );
 
       // Configurar el recurso con metadatos del servicio
@@ -57,7 +120,14 @@ export class TracingService {
       });
 
       // Configurar propagadores para contexto distribuido
-      propagation.setGlobalPropagator(new W3CTraceContextPropagator());
+      const propagator = createPropagator(
+        config.propagators || ['tracecontext', 'baggage'],
+      );
+      propagation.setGlobalPropagator(propagator);
+
+      const debugHeader = (
+        config.sampling?.debugHeader || 'x-debug-trace'
+      ).toLowerCase();
 
       // Inicialización perezosa de instrumentaciones para mejorar el rendimiento de arranque
       const getInstrumentations = () => {
@@ -71,7 +141,12 @@ export class TracingService {
           this.logger.debug('Habilitando instrumentación HTTP');
           instrumentations.push(
             new HttpInstrumentation({
-              ignoreIncomingPaths: ['/health', '/metrics'], // Ignorar rutas de monitoreo
+              ignoreIncomingPaths: [/^\/health/, '/metrics'], // Ignorar rutas de monitoreo
+              // Marcar las peticiones con la cabecera de depuración para forzar su muestreo
+              startIncomingSpanHook: request =>
+                'headers' in request && request.headers[debugHeader]
+                  ? { [SAMPLING_DEBUG_ATTRIBUTE]: true }
+                  : {},
             } as HttpInstrumentationConfig),
             new ExpressInstrumentation(),
           );
@@ -100,20 +175,16 @@ export class TracingService {
         return instrumentations;
       };
 
-      // Configurar muestreador basado en ratio si está definido
-      const sampler =
-        config.samplingRatio !== undefined
-          ? new ParentBasedSampler({
-              root: new TraceIdRatioBasedSampler(config.samplingRatio),
-            })
-          : undefined;
-
       // Crear el SDK con todas las configuraciones
       this.sdk = new NodeSDK({
         resource,
         spanProcessor: this.createSpanProcessor(config) as any,
         instrumentations: getInstrumentations(),
-        sampler,
+        sampler: this.createSampler(config),
+        textMapPropagator: propagator,
+        ...(config.metrics?.enabled && {
+          metricReader: this.createMetricReader(config),
+        }),
       });
 
       // Inicializar el SDK inmediatamente
@@ -138,56 +209,199 @@ export class TracingService {
     }
   }
 
-  private getConfig(): TracingConfig {
+  /**
+   * Indica si el SDK de OpenTelemetry se inició correctamente
+   */
+  get isInitialized(): boolean {
+    return this.initialized;
+  }
+
+  /**
+   * Obtiene el resultado de la última exportación de spans. Con varios
+   * exportadores, prevalece el de un exportador cuya última exportación falló
+   * @returns El estado de la última exportación o null si aún no se ha exportado
+   */
+  getExportStatus(): SpanExportStatus | null {
+    const statuses = Array.from(this.exportStatuses.values());
+    return (
+      statuses.find(status => !status.success) ??
+      statuses.sort(
+        (a, b) => b.timestamp.getTime() - a.timestamp.getTime(),
+      )[0] ??
+      null
+    );
+  }
+
+  /**
+   * Obtiene la política de redacción aplicada a los atributos de los spans
+   */
+  getRedactionPolicy(): RedactionPolicy {
+    return this.redactionPolicy;
+  }
+
+  /**
+   * Obtiene la configuración efectiva de tracing (variables de entorno
+   * combinadas con las opciones del módulo)
+   */
+  getConfig(): TracingConfig {
     const defaultConfig = this.configService.get<TracingConfig>('tracing');
-    return { ...defaultConfig, ...this.options } as TracingConfig;
+    return mergeTracingConfig(defaultConfig, this.options);
+  }
+
+  /**
+   * Crea el muestreador por reglas para las trazas nuevas. Las trazas con
+   * padre respetan la decisión del padre, salvo las peticiones con la
+   * cabecera de depuración; con el tail sampling habilitado, los spans
+   * descartados se registran para poder conservarlos después.
+   */
+  private createSampler(config: TracingConfig): Sampler {
+    const sampling = config.sampling || {};
+    const recordDropped = !!sampling.tailSampling?.enabled;
+
+    return new DebugHeaderSampler(
+      new ParentBasedSampler({
+        root: new RuleBasedSampler({
+          defaultRatio: config.samplingRatio,
+          rules: sampling.rules,
+          ignoredRoutes: sampling.ignoredRoutes || ['/metrics*', '/health*'],
+          recordDropped,
+        }),
+        ...(recordDropped && {
+          localParentNotSampled: new RecordOnlySampler(),
+        }),
+      }),
+    );
+  }
+
+  /**
+   * Crea el lector que exporta periódicamente por OTLP las métricas de los
+   * registros de prom-client, con el Resource del SDK
+   */
+  private createMetricReader(config: TracingConfig): MetricReader {
+    const url = config.metrics.endpoint || `${config.otlpEndpoint}/v1/metrics`;
+    this.logger.log(`Configurada exportación de métricas OTLP a: ${url}`);
+
+    return new PeriodicExportingMetricReader({
+      exporter: new OTLPMetricExporter({ url }),
+      exportIntervalMillis: config.metrics.exportIntervalMillis || 15000,
+      metricProducers: [
+        new PrometheusMetricProducer(config.metrics.registries),
+      ],
+    });
+  }
+
+  /**
+   * Exportadores en uso: `exporters` si se indica, si no `exporter`
+   */
+  private getExporters(config: TracingConfig): TracingExporterOptions[] {
+    return config.exporters?.length
+      ? config.exporters
+      : [{ type: config.exporter } as TracingExporterOptions];
   }
 
   private createSpanProcessor(config: TracingConfig): SpanProcessor {
-    let exporter;
+    const exporters = this.getExporters(config);
+
+    // Cada exportador tiene su propio procesador en lotes, de modo que uno
+    // lento o caído no retrasa ni descarta los spans de los demás
+    const processors = exporters.map(exporterOptions => {
+      // Registrar el resultado de cada exportación para los health checks
+      const trackedExporter = new TrackedSpanExporter(
+        this.createExporter(exporterOptions, config),
+        status => {
+          this.exportStatuses.set(exporterOptions, {
+            ...status,
+            exporter: exporterOptions.type,
+          });
+          if (!status.success) {
+            this.logger.warn(
+              `Error al exportar spans (${exporterOptions.type}): ${status.error}`,
+            );
+          }
+        },
+      );
 
-    switch (config.exporter) {
-      case 'jaeger':
-        exporter = new JaegerExporter({
-          endpoint: config.jaegerEndpoint,
-        });
+      // Obtener opciones para el procesador de spans
+      const options =
+        exporterOptions.batch || config.spanProcessorOptions || {};
+
+      // Usar BatchSpanProcessor con opciones configurables para mejor rendimiento
+      return new BatchSpanProcessor(trackedExporter, {
+        // Tamaño máximo del lote de spans a exportar de una vez
+        maxExportBatchSize: options.maxExportBatchSize || 512,
+        // Tiempo máximo (ms) para mantener spans en buffer antes de exportar
+        scheduledDelayMillis: options.scheduledDelayMillis || 5000,
+        // Tamaño máximo de la cola de spans en memoria
+        maxQueueSize: options.maxQueueSize || 2048,
+        // Tiempo máximo (ms) para exportar spans antes de cancelar durante apagado
+        exportTimeoutMillis: options.exportTimeoutMillis || 30000,
+      });
+    });
+    const processor =
+      processors.length === 1
+        ? processors[0]
+        : new FanOutSpanProcessor(processors);
+
+    // Conservar en memoria las trazas descartadas con errores o lentas
+    let spanProcessor: SpanProcessor = processor;
+    const tailSampling = config.sampling?.tailSampling;
+    if (tailSampling?.enabled) {
+      this.logger.log('Tail sampling de errores y latencia habilitado');
+      spanProcessor = new TailSamplingSpanProcessor(processor, tailSampling);
+    }
+
+    // Copiar las entradas de baggage configuradas en todos los spans
+    if (config.baggageKeys?.length) {
+      spanProcessor = new BaggageSpanProcessor(
+        spanProcessor,
+        config.baggageKeys,
+        this.redactionPolicy,
+      );
+    }
+    return spanProcessor;
+  }
+
+  /**
+   * Crea el exportador de spans de un elemento de `exporters`
+   */
+  private createExporter(
+    options: TracingExporterOptions,
+    config: TracingConfig,
+  ): SpanExporter {
+    switch (options.type) {
+      case 'jaeger': {
+        const endpoint = options.endpoint || config.jaegerEndpoint;
         this.logger.log(
-          `Configurado exportador Jaeger con endpoint: ${config.jaegerEndpoint}`,
+          `Configurado exportador Jaeger con endpoint: ${endpoint}`,
         );
-        break;
-      case 'zipkin':
-        exporter = new ZipkinExporter({
-          url: config.zipkinEndpoint,
+        return new JaegerExporter({ endpoint });
+      }
+      case 'zipkin': {
+        const url = options.endpoint || config.zipkinEndpoint;
+        this.logger.log(`Configurado exportador Zipkin con endpoint: ${url}`);
+        return new ZipkinExporter({ url });
+      }
+      case 'console':
+        this.logger.log('Configurado exportador de consola');
+        return new ConsoleTreeSpanExporter();
+      case 'file': {
+        const path = options.path || 'traces/spans.ndjson';
+        this.logger.log(`Configurado exportador a fichero: ${path}`);
+        return new FileSpanExporter({
+          path,
+          maxFileSize: options.maxFileSize,
+          maxFiles: options.maxFiles,
         });
-        this.logger.log(
-          `Configurado exportador Zipkin con endpoint: ${config.zipkinEndpoint}`,
-        );
-        break;
+      }
       case 'otlp':
-      default:
-        exporter = new OTLPTraceExporter({
-          url: `${config.otlpEndpoint}/v1/traces`,
-        });
-        this.logger.log(
-          `Configurado exportador OTLP con endpoint: ${config.otlpEndpoint}`,
-        );
-        break;
+      default: {
+        const url =
+          ('endpoint' in options && options.endpoint) ||
+          `${config.otlpEndpoint}/v1/traces`;
+        this.logger.log(`Configurado exportador OTLP con endpoint: ${url}`);
+        return new OTLPTraceExporter({ url });
+      }
     }
-
-    // Obtener opciones para el procesador de spans
-    const options = config.spanProcessorOptions || {};
-    
-    // Usar BatchSpanProcessor con opciones configurables para mejor rendimiento
-    return new BatchSpanProcessor(exporter, {
-      // Tamaño máximo del lote de spans a exportar de una vez
-      maxExportBatchSize: options.maxExportBatchSize || 512,
-      // Tiempo máximo (ms) para mantener spans en buffer antes de exportar
-      scheduledDelayMillis: options.scheduledDelayMillis || 5000,
-      // Tamaño máximo de la cola de spans en memoria
-      maxQueueSize: options.maxQueueSize || 2048,
-      // Tiempo máximo (ms) para exportar spans antes de cancelar durante apagado
-      exportTimeoutMillis: options.exportTimeoutMillis || 30000,
-    });
   }
 
   /**
@@ -197,7 +411,7 @@ export class TracingService {
   private async startSdk() {
     try {
       this.sdk.start();
-      this.isInitialized = true;
+      this.initialized = true;
       this.logger.log('SDK de OpenTelemetry iniciado correctamente');
     } catch (error) {
       this.logger.error('Error al iniciar el SDK de OpenTelemetry', error);
@@ -215,7 +429,7 @@ export class TracingService {
    * Método para limpiar recursos al detener la aplicación
    */
   async onApplicationShutdown() {
-    if (this.isInitialized) {
+    if (this.initialized) {
       this.logger.log('Shutting down OpenTelemetry SDK');
       await this.sdk.shutdown();
     }
@@ -242,60 +456,34 @@ export class TracingService {
         `Tracing deshabilitado, retornando span no-op para: ${name}`,
       );
       // Retornar un span no-op cuando el tracing está deshabilitado
-      // Crear un objeto con los métodos necesarios para evitar errores
-      return {
-        setAttribute: (key: string, value: any) => {},
-        setStatus: () => {},
-        recordException: () => {},
-        end: () => {},
-      } as unknown as Span;
+      return trace.wrapSpanContext(INVALID_SPAN_CONTEXT);
     }
 
     try {
-      const tracer = trace.getTracer('nest-app-tracer');
+      const tracer = (this.tracerProvider ?? trace).getTracer(
+        'nest-app-tracer',
+      );
 
-      // Crear el span con las opciones proporcionadas
+      // Crear el span con las opciones proporcionadas. Los atributos pasan
+      // por la política de redacción (los objetos se serializan a JSON)
       const span = tracer.startSpan(name, {
         kind: options?.kind,
         links: options?.links,
-        attributes: {
+        attributes: this.redactionPolicy.redactAttributes({
           // Añadir atributos estándar
           'service.name': config.serviceName,
           'service.version': config.serviceVersion,
           environment: config.environment,
           // Añadir atributos personalizados si se proporcionan
           ...attributes,
-        },
+        }),
       });
 
-      // Añadir atributos adicionales si se proporcionan
-      if (attributes) {
-        Object.entries(attributes).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            // Convertir objetos a JSON para mejor visualización
-            if (typeof value === 'object' && value !== null) {
-              try {
-                span.setAttribute(key, JSON.stringify(value));
-              } catch (e) {
-                span.setAttribute(key, '[Object]');
-              }
-            } else {
-              span.setAttribute(key, value);
-            }
-          }
-        });
-      }
-
       return span;
     } catch (error) {
       this.logger.error(`Error al crear span: ${error.message}`, error.stack);
-      // Retornar un span no-op en caso de error con los métodos necesarios
-      return {
-        setAttribute: (key: string, value: any) => {},
-        setStatus: () => {},
-        recordException: () => {},
-        end: () => {},
-      } as unknown as Span;
+      // Retornar un span no-op en caso de error
+      return trace.wrapSpanContext(INVALID_SPAN_CONTEXT);
     }
   }
 
@@ -330,20 +518,7 @@ export class TracingService {
     try {
       // Añadir atributos adicionales si se proporcionan
       if (attributes) {
-        Object.entries(attributes).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            // Convertir objetos a JSON para mejor visualización
-            if (typeof value === 'object' && value !== null) {
-              try {
-                span.setAttribute(key, JSON.stringify(value));
-              } catch (e) {
-                span.setAttribute(key, '[Object]');
-              }
-            } else {
-              span.setAttribute(key, value);
-            }
-          }
-        });
+        span.setAttributes(this.redactionPolicy.redactAttributes(attributes));
       }
 
       // Añadir información sobre el resultado
@@ -355,19 +530,25 @@ export class TracingService {
           code: SpanStatusCode.OK,
         });
       } else if (error) {
-        // Registrar detalles del error
+        // Registrar detalles del error (redactados, el mensaje puede
+        // contener datos de la petición)
+        const errorAttributes = this.redactionPolicy.redactAttributes({
+          'error.type': error.name || 'Error',
+          'error.message': error.message,
+          'error.stack': error.stack,
+        });
         span.setStatus({
           code: SpanStatusCode.ERROR,
-          message: error.message,
+          message: errorAttributes['error.message'] as string,
+        });
+        span.recordException({
+          name: errorAttributes['error.type'] as string,
+          message: errorAttributes['error.message'] as string,
+          stack: errorAttributes['error.stack'] as string,
         });
-        span.recordException(error);
 
         // Añadir atributos adicionales sobre el error
-        span.setAttribute('error.type', error.name || 'Error');
-        span.setAttribute('error.message', error.message);
-        if (error.stack) {
-          span.setAttribute('error.stack', error.stack);
-        }
+        span.setAttributes(errorAttributes);
       } else {
         // Error sin detalles
         span.setStatus({
@@ -384,7 +565,83 @@ export class TracingService {
   }
 
   /**
-   * Ejecuta una función dentro de un span
+   * Inyecta el contexto de traza activo en un portador (cabeceras HTTP,
+   * payload de un mensaje, datos de un job...) con los propagadores configurados
+   * @param carrier Objeto donde se escriben las cabeceras de propagación
+   * @param setter Función de escritura para portadores que no son objetos planos
+   * @returns El mismo portador
+   */
+  inject<T>(carrier: T, setter: TextMapSetter<T> = defaultTextMapSetter): T {
+    propagation.inject(context.active(), carrier, setter);
+    return carrier;
+  }
+
+  /**
+   * Extrae el contexto de traza de un portador. Para crear spans hijos del
+   * contexto extraído, ejecutar el código con `context.with(contextoExtraido, fn)`
+   * @param carrier Objeto con las cabeceras de propagación
+   * @param getter Función de lectura para portadores que no son objetos planos
+   * @returns El contexto activo combinado con el contexto extraído
+   */
+  extract<T>(
+    carrier: T,
+    getter: TextMapGetter<T> = defaultTextMapGetter,
+  ): Context {
+    return propagation.extract(context.active(), carrier, getter);
+  }
+
+  /**
+   * Crea un contexto con las entradas de baggage indicadas, que se propagan
+   * a los servicios llamados. El contexto es inmutable: ejecutar el código con
+   * `context.with(contexto, fn)` o usar withBaggage()
+   * @param entries Entradas a añadir (p. ej. { 'tenant.id': 'acme' })
+   * @param ctx Contexto base (por defecto el activo)
+   * @returns El nuevo contexto con el baggage actualizado
+   */
+  setBaggage(
+    entries: Record<string, string>,
+    ctx: Context = context.active(),
+  ): Context {
+    const baggage = Object.keys(entries).reduce(
+      (current, key) => current.setEntry(key, { value: String(entries[key]) }),
+      propagation.getBaggage(ctx) ?? propagation.createBaggage(),
+    );
+    return propagation.setBaggage(ctx, baggage);
+  }
+
+  /**
+   * Obtiene el valor de una entrada de baggage del contexto activo
+   * @param key Clave de la entrada
+   */
+  getBaggage(key: string): string | undefined {
+    return propagation.getActiveBaggage()?.getEntry(key)?.value;
+  }
+
+  /**
+   * Obtiene todas las entradas de baggage del contexto activo
+   */
+  getAllBaggage(): Record<string, string> {
+    return (propagation.getActiveBaggage()?.getAllEntries() ?? []).reduce(
+      (entries, [key, entry]) => ({ ...entries, [key]: entry.value }),
+      {} as Record<string, string>,
+    );
+  }
+
+  /**
+   * Ejecuta una función en un contexto con las entradas de baggage indicadas
+   * @param entries Entradas a añadir
+   * @param fn Función a ejecutar
+   * @returns El resultado de la función
+   */
+  withBaggage<T>(entries: Record<string, string>, fn: () => T): T {
+    return context.with(this.setBaggage(entries), fn);
+  }
+
+  /**
+   * Ejecuta una función dentro de un span.
+   * El span se establece como activo durante la ejecución, por lo que las
+   * llamadas anidadas a trace() y las instrumentaciones automáticas
+   * (HTTP, bases de datos...) crean spans hijos del mismo.
    * @param name Nombre del span
    * @param fn Función a ejecutar dentro del span
    * @param options Opciones para el span
@@ -406,8 +663,11 @@ export class TracingService {
     });
 
     try {
-      // Ejecutar la función con el span como argumento
-      const result = await fn(span);
+      // Ejecutar la función con el span como argumento y como span activo
+      const result = await context.with(
+        trace.setSpan(context.active(), span),
+        () => fn(span),
+      );
 
       // Añadir atributos basados en el resultado si se proporciona una función
       const resultAttrs = options?.resultAttributes
@@ -426,8 +686,8 @@ export class TracingService {
   }
 
   /**
-   * Crea un span activo y lo establece como el span actual en el contexto
-   * Útil para operaciones que necesitan propagar el contexto a través de llamadas asíncronas
+   * Crea un span activo y lo establece como el span actual en el contexto.
+   * Equivalente a trace(), que ya propaga el contexto a las llamadas anidadas.
    * @param name Nombre del span
    * @param fn Función a ejecutar dentro del contexto del span
    * @param attributes Atributos opcionales para el span
@@ -438,37 +698,6 @@ export class TracingService {
     fn: (span: Span) => Promise<T> | T,
     attributes?: Record<string, any>,
   ): Promise<T> {
-    const config = this.getConfig();
-    if (!config.enabled) {
-      return fn({} as Span);
-    }
-
-    const tracer = trace.getTracer('nest-app-tracer');
-
-    return tracer.startActiveSpan(name, async span => {
-      // Añadir atributos si se proporcionan
-      if (attributes) {
-        Object.entries(attributes).forEach(([key, value]) => {
-          if (value !== undefined && value !== null) {
-            span.setAttribute(key, value);
-          }
-        });
-      }
-
-      try {
-        const result = await fn(span);
-        span.setStatus({ code: SpanStatusCode.OK });
-        return result;
-      } catch (error) {
-        span.setStatus({
-          code: SpanStatusCode.ERROR,
-          message: error.message,
-        });
-        span.recordException(error);
-        throw error;
-      } finally {
-        span.end();
-      }
-    });
+    return this.trace(name, fn, { attributes });
   }
 }
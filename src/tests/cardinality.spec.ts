@@ -0,0 +1,182 @@
+import { Logger } from '@nestjs/common';
+import * as client from 'prom-client';
+import { PrometheusOptions } from '../lib/prometheus';
+import { getOrCreateMetric } from '../lib/prometheus/metrics';
+
+describe('cardinality guard', () => {
+  let registry: client.Registry;
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    registry = new client.Registry();
+    warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+  });
+
+  const options = (
+    cardinality: PrometheusOptions['cardinality'],
+  ): PrometheusOptions => ({ registry, cardinality });
+
+  const valuesOf = async (name: string) =>
+    (await registry.getSingleMetric(name).get()).values;
+
+  it('should fold new series into __overflow__ past the per-metric limit', async () => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name: 'logins_total', help: 'Logins', labelNames: ['user', 'status'] },
+      options({ maxSeriesPerMetric: 2 }),
+    ) as client.Counter<string>;
+
+    ['1', '2', '3', '4', '1'].forEach(user =>
+      counter.inc({ user, status: 'ok' }),
+    );
+
+    expect(await valuesOf('logins_total')).toEqual([
+      expect.objectContaining({ labels: { user: '1', status: 'ok' }, value: 2 }),
+      expect.objectContaining({ labels: { user: '2', status: 'ok' }, value: 1 }),
+      expect.objectContaining({
+        labels: { user: '__overflow__', status: '__overflow__' },
+        value: 2,
+      }),
+    ]);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('logins_total');
+  });
+
+  it('should apply per-metric overrides and the global limit', async () => {
+    const limits = { maxSeriesPerMetric: 10, maxSeries: 3, metrics: { a: 1 } };
+    const a = getOrCreateMetric(
+      'Gauge',
+      { name: 'a', help: 'a', labelNames: ['id'] },
+      options(limits),
+    ) as client.Gauge<string>;
+    const b = getOrCreateMetric(
+      'Gauge',
+      { name: 'b', help: 'b', labelNames: ['id'] },
+      options(limits),
+    ) as client.Gauge<string>;
+
+    a.set({ id: '1' }, 1);
+    a.set({ id: '2' }, 1);
+    ['1', '2', '3'].forEach(id => b.labels(id).inc());
+
+    expect((await valuesOf('a')).map(value => value.labels.id)).toEqual([
+      '1',
+      '__overflow__',
+    ]);
+    expect((await valuesOf('b')).map(value => value.labels.id)).toEqual([
+      '1',
+      '2',
+      '__overflow__',
+    ]);
+  });
+
+  it('should guard histogram timers', async () => {
+    const histogram = getOrCreateMetric(
+      'Histogram',
+      {
+        name: 'request_seconds',
+        help: 'Requests',
+        labelNames: ['url'],
+        buckets: [1],
+      },
+      options({ maxSeriesPerMetric: 1 }),
+    ) as client.Histogram<string>;
+
+    histogram.startTimer({ url: '/a' })();
+    histogram.startTimer()({ url: '/b' });
+
+    const counts = (await valuesOf('request_seconds')).filter(
+      value =>
+        (value as client.MetricValueWithName<string>).metricName ===
+        'request_seconds_count',
+    );
+    expect(counts.map(value => value.labels.url)).toEqual([
+      '/a',
+      '__overflow__',
+    ]);
+  });
+
+  it('should expose the cardinality of each metric', async () => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name: 'orders_total', help: 'Orders', labelNames: ['channel'] },
+      options({}),
+    ) as client.Counter<string>;
+
+    counter.inc({ channel: 'web' });
+    counter.inc({ channel: 'api' });
+
+    expect(await registry.metrics()).toContain(
+      'nestjs_metric_cardinality{metric="orders_total"} 2',
+    );
+
+    counter.reset();
+    expect(await registry.metrics()).toContain(
+      'nestjs_metric_cardinality{metric="orders_total"} 0',
+    );
+  });
+
+  it('should stop counting the removed series', async () => {
+    const gauge = getOrCreateMetric(
+      'Gauge',
+      { name: 'queue_size', help: 'Queue size', labelNames: ['queue'] },
+      options({ maxSeriesPerMetric: 2 }),
+    ) as client.Gauge<string>;
+
+    gauge.set({ queue: 'emails' }, 1);
+    gauge.set({ queue: 'sms' }, 2);
+    gauge.remove({ queue: 'emails' });
+    gauge.labels('push').set(3);
+    gauge.remove('sms');
+    gauge.set({ queue: 'webhooks' }, 4);
+
+    expect(await valuesOf('queue_size')).toEqual([
+      expect.objectContaining({ labels: { queue: 'push' }, value: 3 }),
+      expect.objectContaining({ labels: { queue: 'webhooks' }, value: 4 }),
+    ]);
+    expect(await registry.metrics()).toContain(
+      'nestjs_metric_cardinality{metric="queue_size"} 2',
+    );
+    expect(warn).not.toHaveBeenCalled();
+  });
+
+  it('should warn when the limits of a registry differ', () => {
+    getOrCreateMetric(
+      'Counter',
+      { name: 'a', help: 'a' },
+      options({ maxSeriesPerMetric: 10, metrics: { a: 1, b: 2 } }),
+    );
+    getOrCreateMetric(
+      'Counter',
+      { name: 'b', help: 'b' },
+      options({ metrics: { b: 2, a: 1 }, maxSeriesPerMetric: 10 }),
+    );
+    expect(warn).not.toHaveBeenCalled();
+
+    getOrCreateMetric(
+      'Counter',
+      { name: 'c', help: 'c' },
+      options({ maxSeriesPerMetric: 5 }),
+    );
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn.mock.calls[0][0]).toContain('cardinality limits');
+  });
+
+  it('should be disabled by default', async () => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name: 'orders_total', help: 'Orders', labelNames: ['channel'] },
+      { registry },
+    ) as client.Counter<string>;
+
+    counter.inc({ channel: 'web' });
+
+    expect(
+      registry.getSingleMetric('nestjs_metric_cardinality'),
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,147 @@
+import { Controller, Get, INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { context, trace, TraceFlags } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import * as client from 'prom-client';
+import { PrometheusModule } from '../lib/prometheus';
+import { renderOpenMetrics } from '../lib/prometheus/exposition';
+import { getOrCreateMetric } from '../lib/prometheus/metrics';
+
+const spanContext = {
+  traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+  spanId: '00f067aa0ba902b7',
+  traceFlags: TraceFlags.SAMPLED,
+};
+
+const withSpan = <T>(fn: () => T): T =>
+  context.with(trace.setSpanContext(context.active(), spanContext), fn);
+
+@Controller('orders')
+class OrdersController {
+  @Get()
+  findAll() {
+    return [];
+  }
+}
+
+describe('exemplars', () => {
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncHooksContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  afterEach(() => {
+    client.register.clear();
+  });
+
+  it('should attach the active trace to counters and histograms', async () => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name: 'orders_total', help: 'orders_total', labelNames: ['channel'] },
+      { exemplars: true },
+    ) as client.Counter<string>;
+    const histogram = getOrCreateMetric(
+      'Histogram',
+      { name: 'order_value', help: 'order_value', buckets: [10, 100] },
+      { exemplars: true },
+    ) as client.Histogram<string>;
+
+    withSpan(() => {
+      counter.inc({ channel: 'web' }, 2);
+      histogram.observe(42);
+    });
+    counter.inc({ channel: 'api' });
+
+    const output = await renderOpenMetrics(client.register);
+    expect(output).toContain(
+      `orders_total{channel="web"} 2 # {trace_id="${spanContext.traceId}",span_id="${spanContext.spanId}"} 2`,
+    );
+    expect(output).toContain(
+      `order_value_bucket{le="100"} 1 # {trace_id="${spanContext.traceId}",span_id="${spanContext.spanId}"} 42`,
+    );
+    expect(output).toContain('orders_total{channel="api"} 1\n');
+    expect(output).toMatch(/# EOF\n$/);
+
+    // The Prometheus format is unchanged
+    expect(await client.register.metrics()).toContain(
+      '# TYPE orders_total counter',
+    );
+  });
+
+  it('should not attach exemplars by default', async () => {
+    const counter = getOrCreateMetric('Counter', {
+      name: 'orders_total',
+      help: 'orders_total',
+    }) as client.Counter<string>;
+
+    withSpan(() => counter.inc());
+
+    const output = await renderOpenMetrics(client.register);
+    expect(output).toContain('orders_total 1\n');
+  });
+
+  it('should not attach exemplars when disabled', async () => {
+    const counter = getOrCreateMetric(
+      'Counter',
+      { name: 'orders_total', help: 'orders_total' },
+      { exemplars: false },
+    ) as client.Counter<string>;
+
+    withSpan(() => counter.inc());
+
+    const output = await renderOpenMetrics(client.register);
+    expect(output).toContain('orders_total 1\n');
+  });
+
+  describe('PrometheusController', () => {
+    let app: INestApplication;
+    let baseUrl: string;
+
+    beforeEach(async () => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [
+          PrometheusModule.register({
+            defaultMetrics: { enabled: false },
+            defaultLabels: { app: 'orders' },
+            httpMetrics: { enabled: true },
+          }),
+        ],
+        controllers: [OrdersController],
+      }).compile();
+
+      app = moduleRef.createNestApplication();
+      await app.listen(0);
+      baseUrl = await app.getUrl();
+    });
+
+    afterEach(async () => {
+      await app.close();
+    });
+
+    it('should serve OpenMetrics when the scraper asks for it', async () => {
+      await fetch(`${baseUrl}/orders`);
+
+      const response = await fetch(`${baseUrl}/metrics`, {
+        headers: { Accept: 'application/openmetrics-text; version=1.0.0' },
+      });
+      const body = await response.text();
+
+      expect(response.headers.get('content-type')).toContain(
+        'application/openmetrics-text',
+      );
+      expect(body).toContain('# TYPE http_requests counter');
+      expect(body).toContain('app="orders"');
+      expect(body).toMatch(/# EOF\n$/);
+    });
+
+    it('should keep serving the Prometheus text format by default', async () => {
+      const response = await fetch(`${baseUrl}/metrics`);
+
+      expect(response.headers.get('content-type')).toContain('text/plain');
+      expect(await response.text()).not.toContain('# EOF');
+    });
+  });
+});
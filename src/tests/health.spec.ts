@@ -0,0 +1,151 @@
+import { INestApplication, Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { createServer, Server } from 'http';
+import { AddressInfo } from 'net';
+import {
+  HealthCheckResult,
+  HealthIndicator,
+  HealthModule,
+  HealthService,
+} from '../lib/health';
+import { TracingModule } from '../lib/tracing/tracing.module';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+@Injectable()
+class DatabaseIndicator implements HealthIndicator {
+  readonly name = 'database';
+  healthy = true;
+
+  check(): HealthCheckResult {
+    return { status: this.healthy ? 'up' : 'down' };
+  }
+}
+
+describe('HealthModule', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        TracingModule.forRootAsync({ useFactory: () => ({ enabled: false }) }),
+        HealthModule.forRoot({
+          indicators: [DatabaseIndicator],
+          pushgatewayUrl: 'http://127.0.0.1:1',
+          timeoutMillis: 500,
+        }),
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    baseUrl = await app.getUrl();
+  });
+
+  afterEach(async () => {
+    await app.close();
+  });
+
+  it('should report liveness without the readiness checks', async () => {
+    const response = await fetch(`${baseUrl}/health/live`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({
+      status: 'up',
+      checks: { process: { status: 'up' } },
+    });
+  });
+
+  it('should return 503 with per-check status when a dependency is down', async () => {
+    const response = await fetch(`${baseUrl}/health/ready`);
+    const body = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(body.status).toBe('down');
+    expect(body.checks).toMatchObject({
+      tracing: { status: 'up', details: { enabled: false } },
+      pushgateway: { status: 'down' },
+      database: { status: 'up' },
+    });
+    expect(body.checks.span_export).toBeUndefined();
+  });
+
+  it('should evaluate indicators registered at runtime', async () => {
+    app.get(HealthService).registerIndicator({
+      name: 'cache',
+      probe: 'liveness',
+      check: () => {
+        throw new Error('cache unavailable');
+      },
+    });
+
+    const response = await fetch(`${baseUrl}/health/live`);
+    const body = await response.json();
+
+    expect(response.status).toBe(503);
+    expect(body.checks.cache).toEqual({
+      status: 'down',
+      details: { error: 'cache unavailable' },
+    });
+  });
+
+  it('should only check the span export when enabled', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        TracingModule.forRootAsync({ useFactory: () => ({ enabled: false }) }),
+        HealthModule.forRoot({ spanExportCheck: true }),
+      ],
+    }).compile();
+    jest
+      .spyOn(moduleRef.get(TracingService), 'getExportStatus')
+      .mockReturnValue({
+        success: false,
+        timestamp: new Date(),
+        spans: 3,
+        error: 'ECONNREFUSED',
+      });
+
+    const report = await moduleRef.get(HealthService).checkReadiness();
+
+    expect(report.status).toBe('down');
+    expect(report.checks.span_export).toMatchObject({
+      status: 'down',
+      details: { error: 'ECONNREFUSED' },
+    });
+    await moduleRef.close();
+  });
+
+  it('should keep the path prefix of the Pushgateway URL', async () => {
+    const requests: string[] = [];
+    const pushgateway: Server = createServer((request, response) => {
+      requests.push(request.url);
+      response.statusCode =
+        request.url === '/pushgateway/-/healthy' ? 200 : 404;
+      response.end();
+    });
+    await new Promise<void>(resolve => pushgateway.listen(0, resolve));
+    const { port } = pushgateway.address() as AddressInfo;
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        TracingModule.forRootAsync({ useFactory: () => ({ enabled: false }) }),
+        HealthModule.forRoot({
+          pushgatewayUrl: `http://127.0.0.1:${port}/pushgateway`,
+        }),
+      ],
+    }).compile();
+
+    try {
+      const result = await moduleRef.get(HealthService).checkReadiness();
+
+      expect(requests).toEqual(['/pushgateway/-/healthy']);
+      expect(result.checks.pushgateway).toEqual({
+        status: 'up',
+        details: { statusCode: 200 },
+      });
+    } finally {
+      await moduleRef.close();
+      await new Promise(resolve => pushgateway.close(resolve));
+    }
+  });
+});
@@ -0,0 +1,221 @@
+import { INestApplication, Injectable, Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  Counted,
+  getOrCreateMetric,
+  makeCounterProvider,
+  MetricsServer,
+  PrometheusModule,
+  PrometheusOptions,
+} from '../lib/prometheus';
+
+describe('metric definition conflicts', () => {
+  let registry: client.Registry;
+
+  beforeEach(() => {
+    registry = new client.Registry();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const orders = {
+    name: 'orders_total',
+    help: 'Orders',
+    labelNames: ['channel'],
+  };
+
+  it('should return the registered metric for the same definition', () => {
+    const first = getOrCreateMetric('Counter', orders, { registry });
+    const second = getOrCreateMetric(
+      'Counter',
+      { ...orders, labelNames: ['channel'] },
+      { registry },
+    );
+
+    expect(second).toBe(first);
+  });
+
+  it('should throw on another type or other labels', () => {
+    const options: PrometheusOptions = { registry, onMetricConflict: 'throw' };
+    getOrCreateMetric('Counter', orders, options, 'OrdersService');
+
+    expect(() =>
+      getOrCreateMetric('Gauge', orders, options, 'BillingService'),
+    ).toThrow(
+      'Metric orders_total is already registered as a counter with labels [channel], which conflicts with the gauge with labels [channel] declared by BillingService',
+    );
+    expect(() =>
+      getOrCreateMetric(
+        'Counter',
+        { ...orders, labelNames: ['country'] },
+        options,
+      ),
+    ).toThrow('conflicts with the counter with labels [country]');
+  });
+
+  it('should compare the buckets of histograms', () => {
+    const duration = {
+      name: 'duration_seconds',
+      help: 'Duration',
+      buckets: [0.1, 1],
+    };
+    const options: PrometheusOptions = { registry, onMetricConflict: 'throw' };
+    getOrCreateMetric('Histogram', duration, options);
+
+    expect(
+      getOrCreateMetric(
+        'Histogram',
+        { name: 'duration_seconds', help: 'Duration' },
+        options,
+      ),
+    ).toBe(registry.getSingleMetric('duration_seconds'));
+    expect(() =>
+      getOrCreateMetric(
+        'Histogram',
+        { ...duration, buckets: [0.5, 5] },
+        options,
+      ),
+    ).toThrow(
+      'registered as a histogram with labels [] and buckets [0.1, 1], which conflicts with the histogram with labels [] and buckets [0.5, 5]',
+    );
+  });
+
+  it('should warn once by default and return the registered metric', () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    const options: PrometheusOptions = { registry };
+    const counter = getOrCreateMetric('Counter', orders, options);
+
+    expect(getOrCreateMetric('Gauge', orders, options)).toBe(counter);
+    expect(getOrCreateMetric('Gauge', orders, options)).toBe(counter);
+    expect(warn).toHaveBeenCalledTimes(1);
+    expect(warn).toHaveBeenCalledWith(
+      expect.stringContaining('the registered metric is used'),
+    );
+  });
+
+  it('should suffix the conflicting metric with its namespace', () => {
+    const options: PrometheusOptions = {
+      registry,
+      onMetricConflict: 'namespace-suffix',
+    };
+    const counter = getOrCreateMetric('Counter', orders, options);
+    const gauge = getOrCreateMetric('Gauge', orders, options, 'BillingService');
+
+    expect(gauge).not.toBe(counter);
+    expect(registry.getSingleMetric('orders_total_billing_service')).toBe(
+      gauge,
+    );
+    expect(getOrCreateMetric('Gauge', orders, options, 'BillingService')).toBe(
+      gauge,
+    );
+    expect(getOrCreateMetric('Gauge', orders, options)).toBe(
+      registry.getSingleMetric('orders_total_gauge'),
+    );
+  });
+});
+
+describe('registry introspection', () => {
+  let app: INestApplication;
+
+  @Injectable()
+  class CheckoutService {
+    @Counted('checkouts_total')
+    checkout() {
+      return true;
+    }
+  }
+
+  const createApp = async (options: PrometheusOptions) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({
+          defaultMetrics: { enabled: false },
+          ...options,
+        }),
+        PrometheusModule.forFeature(
+          [
+            makeCounterProvider({
+              name: 'orders_total',
+              help: 'Orders',
+              labelNames: ['channel'],
+            }),
+          ],
+          { namespace: 'orders' },
+        ),
+      ],
+      providers: [CheckoutService],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    app.get(CheckoutService).checkout();
+  };
+
+  afterEach(async () => {
+    await app.close();
+    client.register.clear();
+  });
+
+  it('should list the metrics with their declaring module', async () => {
+    await createApp({ introspection: true });
+
+    const response = await fetch(`${await app.getUrl()}/metrics/registry`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual([
+      {
+        name: 'checkouts_total',
+        type: 'counter',
+        help: 'checkouts_total',
+        labelNames: ['outcome'],
+        declaredBy: ['CheckoutService.checkout'],
+      },
+      {
+        name: 'orders_total',
+        type: 'counter',
+        help: 'Orders',
+        labelNames: ['channel'],
+        declaredBy: ['orders'],
+      },
+    ]);
+  });
+
+  it('should not be served unless enabled', async () => {
+    await createApp({});
+
+    const response = await fetch(`${await app.getUrl()}/metrics/registry`);
+
+    expect(response.status).toBe(404);
+  });
+
+  it('should apply the endpoint security', async () => {
+    await createApp({
+      introspection: true,
+      security: { bearerToken: 's3cr3t' },
+    });
+    const url = `${await app.getUrl()}/metrics/registry`;
+
+    expect((await fetch(url)).status).toBe(401);
+    expect(
+      (await fetch(url, { headers: { Authorization: 'Bearer s3cr3t' } }))
+        .status,
+    ).toBe(200);
+  });
+
+  it('should be served by the dedicated metrics server', async () => {
+    await createApp({ introspection: true, server: { port: 0 } });
+    const { port } = app.get(MetricsServer).address();
+
+    const response = await fetch(`http://127.0.0.1:${port}/metrics/registry`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toMatch(/application\/json/);
+    expect((await response.json()).map(({ name }) => name)).toEqual([
+      'checkouts_total',
+      'orders_total',
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+import * as client from 'prom-client';
+import { defer, lastValueFrom, of, throwError } from 'rxjs';
+import { Counted, InFlight, PrometheusModule, Timed } from '../lib/prometheus';
+
+class OrdersService {
+  @Counted('orders_created_total', { labels: { channel: 'web' } })
+  create(fail = false) {
+    if (fail) {
+      throw new Error('invalid order');
+    }
+    return 'created';
+  }
+
+  @Timed('order_processing_seconds', { buckets: [0.1, 1] })
+  async process(fail = false) {
+    if (fail) {
+      throw new Error('processing failed');
+    }
+    return 'processed';
+  }
+
+  @Counted('orders_streamed_total')
+  stream(fail = false) {
+    return fail ? throwError(() => new Error('stream failed')) : of(1, 2);
+  }
+
+  @InFlight('orders_watched_in_flight')
+  @Counted('orders_watched_total')
+  watch(release: Promise<void>) {
+    return defer(() => release);
+  }
+
+  @InFlight('orders_in_flight')
+  async pending(release: Promise<void>) {
+    await release;
+  }
+}
+
+describe('metric decorators', () => {
+  const service = new OrdersService();
+
+  beforeAll(() => {
+    PrometheusModule.register({
+      customMetricPrefix: 'app',
+      defaultMetrics: { enabled: false },
+    });
+  });
+
+  afterEach(() => {
+    client.register.resetMetrics();
+  });
+
+  afterAll(() => {
+    client.register.clear();
+  });
+
+  const valueOf = async (name: string, labels: Record<string, string>) => {
+    const metric = await client.register.getSingleMetric(name).get();
+    return metric.values.find(value =>
+      Object.entries(labels).every(
+        ([key, label]) => value.labels[key] === label,
+      ),
+    )?.value;
+  };
+
+  it('@Counted should count sync calls with the outcome label', async () => {
+    service.create();
+    expect(() => service.create(true)).toThrow('invalid order');
+
+    expect(
+      await valueOf('app_orders_created_total', {
+        channel: 'web',
+        outcome: 'success',
+      }),
+    ).toBe(1);
+    expect(
+      await valueOf('app_orders_created_total', { outcome: 'error' }),
+    ).toBe(1);
+  });
+
+  it('@Timed should observe async calls once they settle', async () => {
+    await service.process();
+    await expect(service.process(true)).rejects.toThrow('processing failed');
+
+    const output = await client.register.metrics();
+    expect(output).toContain(
+      'app_order_processing_seconds_count{outcome="success"} 1',
+    );
+    expect(output).toContain(
+      'app_order_processing_seconds_count{outcome="error"} 1',
+    );
+  });
+
+  it('@Counted should record observables when they complete or error', async () => {
+    await lastValueFrom(service.stream());
+    await expect(lastValueFrom(service.stream(true))).rejects.toThrow();
+
+    expect(
+      await valueOf('app_orders_streamed_total', { outcome: 'success' }),
+    ).toBe(1);
+    expect(
+      await valueOf('app_orders_streamed_total', { outcome: 'error' }),
+    ).toBe(1);
+  });
+
+  it('@InFlight should track pending invocations', async () => {
+    let release: () => void;
+    const pending = service.pending(
+      new Promise(resolve => (release = resolve)),
+    );
+
+    expect(await valueOf('app_orders_in_flight', {})).toBe(1);
+    release();
+    await pending;
+    expect(await valueOf('app_orders_in_flight', {})).toBe(0);
+  });
+
+  it('should measure every subscription to an observable', async () => {
+    let release: () => void;
+    const watched = service.watch(new Promise(resolve => (release = resolve)));
+
+    const first = lastValueFrom(watched);
+    const second = lastValueFrom(watched);
+    expect(await valueOf('app_orders_watched_in_flight', {})).toBe(2);
+
+    release();
+    await Promise.all([first, second]);
+    expect(await valueOf('app_orders_watched_in_flight', {})).toBe(0);
+    expect(
+      await valueOf('app_orders_watched_total', { outcome: 'success' }),
+    ).toBe(2);
+  });
+
+  it('should not measure an observable that is never subscribed', async () => {
+    service.watch(Promise.resolve());
+
+    expect(await valueOf('app_orders_watched_in_flight', {})).toBe(0);
+    expect(await valueOf('app_orders_watched_total', {})).toBeUndefined();
+  });
+});
@@ -0,0 +1,88 @@
+import { Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  defineMetric,
+  InferMetric,
+  InjectMetric,
+  PrometheusModule,
+} from '../lib/prometheus';
+
+const RequestDuration = defineMetric({
+  type: 'histogram',
+  name: 'request_duration_seconds',
+  help: 'Duration of the requests',
+  labelNames: ['route', 'status'] as const,
+  buckets: [0.1, 1],
+});
+
+const JobsProcessed = defineMetric({
+  type: 'counter',
+  name: 'jobs_processed_total',
+  help: 'Processed jobs',
+});
+
+@Injectable()
+class RequestsService {
+  constructor(
+    @InjectMetric(RequestDuration)
+    readonly duration: InferMetric<typeof RequestDuration>,
+    @InjectMetric(JobsProcessed)
+    readonly jobs: InferMetric<typeof JobsProcessed>,
+  ) {}
+
+  record() {
+    this.duration.labels({ route: '/orders', status: '200' }).observe(0.5);
+    this.jobs.inc();
+  }
+
+  // Never called: only checked by the compiler
+  typeErrors() {
+    // @ts-expect-error unknown label name
+    this.duration.labels({ rout: '/orders' });
+    // @ts-expect-error a counter cannot be set
+    this.jobs.set(1);
+  }
+}
+
+describe('defineMetric', () => {
+  afterEach(() => {
+    client.register.clear();
+  });
+
+  it('should describe the metric and its injection token', () => {
+    expect(RequestDuration).toMatchObject({
+      type: 'histogram',
+      name: 'request_duration_seconds',
+      labelNames: ['route', 'status'],
+      token: 'PROM_METRIC_REQUEST_DURATION_SECONDS',
+    });
+  });
+
+  it('should provide the typed metric', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({
+          customMetricPrefix: 'app',
+          defaultMetrics: { enabled: false },
+        }),
+      ],
+      providers: [
+        RequestDuration.provider,
+        JobsProcessed.provider,
+        RequestsService,
+      ],
+    }).compile();
+
+    const service = moduleRef.get(RequestsService);
+    service.record();
+
+    expect(service.duration).toBeInstanceOf(client.Histogram);
+    expect(service.jobs).toBeInstanceOf(client.Counter);
+    const output = await client.register.metrics();
+    expect(output).toContain(
+      'app_request_duration_seconds_count{route="/orders",status="200"} 1',
+    );
+    expect(output).toContain('app_jobs_processed_total 1');
+  });
+});
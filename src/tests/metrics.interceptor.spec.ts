@@ -0,0 +1,123 @@
+import {
+  Controller,
+  ExecutionContext,
+  Get,
+  INestApplication,
+  NotFoundException,
+  Param,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import { lastValueFrom, of } from 'rxjs';
+import { MetricsInterceptor, PrometheusModule } from '../lib/prometheus';
+
+@Controller('orders')
+class OrdersController {
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    if (id === 'missing') {
+      throw new NotFoundException();
+    }
+    return { id };
+  }
+
+  @Get('internal/ping')
+  ping() {
+    return 'pong';
+  }
+}
+
+describe('MetricsInterceptor', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({
+          defaultMetrics: { enabled: false },
+          httpMetrics: {
+            enabled: true,
+            buckets: [0.1, 1],
+            excludeRoutes: [/^\/orders\/internal/],
+          },
+        }),
+      ],
+      controllers: [OrdersController],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    baseUrl = await app.getUrl();
+  });
+
+  afterEach(async () => {
+    await app.close();
+    client.register.clear();
+  });
+
+  it('should record RED metrics labelled with the templated route', async () => {
+    await fetch(`${baseUrl}/orders/1`);
+    await fetch(`${baseUrl}/orders/2`);
+    await fetch(`${baseUrl}/orders/missing`);
+
+    const output = await client.register.metrics();
+    expect(output).toContain(
+      'http_requests_total{method="GET",route="/orders/:id",controller="OrdersController",status_code="200"} 2',
+    );
+    expect(output).toContain(
+      'http_requests_total{method="GET",route="/orders/:id",controller="OrdersController",status_code="404"} 1',
+    );
+    expect(output).toContain(
+      'http_request_duration_seconds_count{method="GET",route="/orders/:id",controller="OrdersController",status_code="200"} 2',
+    );
+    expect(output).toContain(
+      'http_requests_in_flight{method="GET",route="/orders/:id",controller="OrdersController"} 0',
+    );
+  });
+
+  it('should skip excluded routes and the metrics endpoint', async () => {
+    await fetch(`${baseUrl}/orders/internal/ping`);
+    await fetch(`${baseUrl}/metrics`);
+
+    const output = await client.register.metrics();
+    expect(output).not.toContain('route="/orders/internal/ping"');
+    expect(output).not.toContain('route="/metrics"');
+  });
+
+  it('should label requests without a route template by template or as unmatched', async () => {
+    const interceptor = new MetricsInterceptor();
+    const intercept = (request: Record<string, unknown>) =>
+      lastValueFrom(
+        interceptor.intercept(
+          {
+            getType: () => 'http',
+            getClass: () => OrdersController,
+            switchToHttp: () => ({
+              getRequest: () => ({ method: 'GET', ...request }),
+              getResponse: () => ({ statusCode: 200 }),
+            }),
+          } as unknown as ExecutionContext,
+          { handle: () => of({}) },
+        ),
+      );
+
+    // Fastify exposes the template as routeOptions.url (routerPath before v4)
+    await intercept({
+      url: '/orders/7?page=2',
+      routeOptions: { url: '/orders/:id' },
+    });
+    await intercept({ url: '/orders/8', routerPath: '/orders/:id' });
+    await intercept({ url: '/unknown/9' });
+
+    const output = await client.register.metrics();
+    expect(output).toContain(
+      'http_requests_total{method="GET",route="/orders/:id",controller="OrdersController",status_code="200"} 2',
+    );
+    expect(output).toContain(
+      'http_requests_total{method="GET",route="UNMATCHED",controller="OrdersController",status_code="200"} 1',
+    );
+    expect(output).not.toContain('/orders/7');
+    expect(output).not.toContain('/unknown/9');
+  });
+});
@@ -0,0 +1,187 @@
+import { INestApplication } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  MetricsServer,
+  PrometheusController,
+  PrometheusModule,
+  PrometheusOptions,
+} from '../lib/prometheus';
+
+describe('metrics endpoint protection', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  const createApp = async (options: PrometheusOptions, async = false) => {
+    const prometheusOptions = { defaultMetrics: { enabled: false }, ...options };
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        async
+          ? PrometheusModule.registerAsync({
+              server: options.server !== undefined,
+              useFactory: () => prometheusOptions,
+            })
+          : PrometheusModule.register(prometheusOptions),
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    baseUrl = await app.getUrl();
+  };
+
+  const basic = (credentials: string) =>
+    `Basic ${Buffer.from(credentials).toString('base64')}`;
+
+  afterEach(async () => {
+    await app?.close();
+    app = undefined;
+    client.register.clear();
+  });
+
+  it('should require basic auth credentials', async () => {
+    await createApp({
+      security: { basicAuth: { username: 'prometheus', password: 's3cret' } },
+    });
+
+    const anonymous = await fetch(`${baseUrl}/metrics`);
+    expect(anonymous.status).toBe(401);
+    expect(anonymous.headers.get('www-authenticate')).toBe(
+      'Basic realm="metrics"',
+    );
+
+    const wrong = await fetch(`${baseUrl}/metrics`, {
+      headers: { Authorization: basic('prometheus:wrong') },
+    });
+    expect(wrong.status).toBe(401);
+
+    const authorized = await fetch(`${baseUrl}/metrics`, {
+      headers: { Authorization: basic('prometheus:s3cret') },
+    });
+    expect(authorized.status).toBe(200);
+  });
+
+  it('should accept a bearer token', async () => {
+    await createApp({ security: { bearerToken: 'token' } });
+
+    expect(
+      (
+        await fetch(`${baseUrl}/metrics`, {
+          headers: { Authorization: 'Bearer other' },
+        })
+      ).status,
+    ).toBe(401);
+    expect(
+      (
+        await fetch(`${baseUrl}/metrics`, {
+          headers: { Authorization: 'Bearer token' },
+        })
+      ).status,
+    ).toBe(200);
+  });
+
+  it('should reject clients outside the allowed CIDRs', async () => {
+    await createApp({ security: { allowedCidrs: ['10.0.0.0/8'] } });
+
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(403);
+  });
+
+  it('should accept clients inside the allowed CIDRs', async () => {
+    await createApp({ security: { allowedCidrs: ['127.0.0.0/8', '::1/128'] } });
+
+    expect((await fetch(`${baseUrl}/metrics`)).status).toBe(200);
+  });
+
+  it('should reject malformed allowed CIDRs at initialization', async () => {
+    expect(() =>
+      PrometheusModule.register({ security: { allowedCidrs: ['10.0.0.0/x'] } }),
+    ).toThrow("Invalid entry '10.0.0.0/x' in security.allowedCidrs");
+    await expect(
+      createApp({ security: { allowedCidrs: ['127.0.0.300'] } }, true),
+    ).rejects.toThrow("Invalid entry '127.0.0.300' in security.allowedCidrs");
+  });
+
+  describe('dedicated server', () => {
+    const metricsUrl = () =>
+      `http://127.0.0.1:${app.get(MetricsServer).address().port}`;
+
+    it('should serve the metrics on a separate port only', async () => {
+      await createApp({
+        server: { port: 0, host: '127.0.0.1' },
+        defaultLabels: { app: 'orders' },
+      });
+      new client.Counter({ name: 'orders_total', help: 'Orders' }).inc();
+
+      expect((await fetch(`${baseUrl}/metrics`)).status).toBe(404);
+
+      const response = await fetch(`${metricsUrl()}/metrics`, {
+        headers: { Accept: 'application/openmetrics-text' },
+      });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toContain(
+        'application/openmetrics-text',
+      );
+      expect(await response.text()).toContain('orders_total{app="orders"} 1');
+
+      expect((await fetch(`${metricsUrl()}/other`)).status).toBe(404);
+      expect(
+        (await fetch(`${metricsUrl()}/metrics`, { method: 'POST' })).status,
+      ).toBe(405);
+      expect(
+        (
+          await fetch(`${metricsUrl()}/metrics`, {
+            headers: { Accept: 'application/json' },
+          })
+        ).status,
+      ).toBe(406);
+    });
+
+    it('should protect the dedicated server', async () => {
+      await createApp({
+        server: { port: 0, host: '127.0.0.1' },
+        security: { bearerToken: 'token' },
+      });
+
+      const anonymous = await fetch(`${metricsUrl()}/metrics`);
+      expect(anonymous.status).toBe(401);
+      expect(anonymous.headers.get('www-authenticate')).toBe('Bearer');
+      expect(
+        (
+          await fetch(`${metricsUrl()}/metrics`, {
+            headers: { Authorization: 'Bearer token' },
+          })
+        ).status,
+      ).toBe(200);
+    });
+
+    it('should not mount the controller with registerAsync', async () => {
+      await createApp({ server: { port: 0, host: '127.0.0.1' } }, true);
+
+      expect(() => app.get(PrometheusController)).toThrow();
+      expect((await fetch(`${baseUrl}/metrics`)).status).toBe(404);
+      expect((await fetch(`${metricsUrl()}/metrics`)).status).toBe(200);
+    });
+
+    it('should require registerAsync to choose the dedicated server', async () => {
+      await expect(
+        Test.createTestingModule({
+          imports: [
+            PrometheusModule.registerAsync({
+              useFactory: () => ({ server: { port: 0 } }),
+            }),
+          ],
+        }).compile(),
+      ).rejects.toThrow('server: true');
+      await expect(
+        Test.createTestingModule({
+          imports: [
+            PrometheusModule.registerAsync({
+              server: true,
+              useFactory: () => ({}),
+            }),
+          ],
+        }).compile(),
+      ).rejects.toThrow('server configuration');
+    });
+  });
+});
@@ -0,0 +1,173 @@
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import { ObservabilityModule } from '../lib/observability/observability.module';
+import { HealthService } from '../lib/health/health.service';
+import { ObservabilityService } from '../lib/observability/observability.service';
+import { PrometheusController } from '../lib/prometheus/controller';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+describe('ObservabilityModule', () => {
+  afterEach(() => {
+    client.register.clear();
+    client.register.setDefaultLabels({});
+  });
+
+  it('register() should expose the facade and share the service name', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.register({
+          serviceName: 'orders',
+          environment: 'test',
+          metrics: { defaultMetrics: { enabled: false } },
+          tracing: { enabled: false },
+        }),
+      ],
+    }).compile();
+
+    const observability = moduleRef.get(ObservabilityService);
+    expect(observability.tracing).toBeInstanceOf(TracingService);
+
+    observability.recordEvent('order.created');
+    const output = await client.register.metrics();
+    expect(output).toContain(
+      'observability_events_total{event="order.created",service="orders",environment="test"} 1',
+    );
+  });
+
+  it('registerAsync() should resolve the options once for every module', async () => {
+    const useFactory = jest.fn(() => ({
+      serviceName: 'billing',
+      tracing: { enabled: false },
+    }));
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.registerAsync({
+          metrics: { enabled: false },
+          useFactory,
+        }),
+      ],
+    }).compile();
+
+    expect(moduleRef.get(ObservabilityService)).toBeDefined();
+    expect(useFactory).toHaveBeenCalledTimes(1);
+  });
+
+  it.each([
+    [
+      'register()',
+      ObservabilityModule.register({
+        metrics: { enabled: false },
+        tracing: { enabled: false },
+      }),
+    ],
+    [
+      'registerAsync()',
+      ObservabilityModule.registerAsync({
+        metrics: { enabled: false },
+        useFactory: () => ({ tracing: { enabled: false } }),
+      }),
+    ],
+  ])(
+    '%s should not register metrics when they are disabled',
+    async (_method, observabilityModule) => {
+      const moduleRef = await Test.createTestingModule({
+        imports: [observabilityModule],
+      }).compile();
+
+      const observability = moduleRef.get(ObservabilityService);
+      observability.recordEvent('order.created');
+      observability.recordError(new Error('timeout'), 'OrdersService');
+
+      expect(() => moduleRef.get(PrometheusController)).toThrow();
+      expect(client.register.getMetricsAsArray()).toEqual([]);
+    },
+  );
+
+  it('recordEvent() should not let the attributes overwrite the message', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.register({
+          metrics: { enabled: false },
+          tracing: { enabled: false },
+        }),
+      ],
+    }).compile();
+
+    const observability = moduleRef.get(ObservabilityService);
+    const log = jest.spyOn(observability.logs, 'log').mockImplementation();
+    observability.recordEvent(
+      'order.created',
+      { message: 'other', event: 'other', orderId: '42' },
+      'Pedido creado',
+    );
+
+    expect(log).toHaveBeenCalledWith({
+      message: 'Pedido creado',
+      event: 'order.created',
+      orderId: '42',
+    });
+  });
+
+  it('recordEvent() should log the redacted attributes', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.register({
+          metrics: { enabled: false },
+          tracing: { enabled: false },
+        }),
+      ],
+    }).compile();
+
+    const observability = moduleRef.get(ObservabilityService);
+    const log = jest.spyOn(observability.logs, 'log').mockImplementation();
+    observability.recordEvent(
+      'user.login',
+      { userId: '42', password: 's3cret' },
+      'Inicio de sesión',
+    );
+
+    expect(log).toHaveBeenCalledWith({
+      message: 'Inicio de sesión',
+      event: 'user.login',
+      userId: '42',
+      password: '[REDACTED]',
+    });
+  });
+
+  it('registerAsync() should let the factory disable the metrics', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.registerAsync({
+          useFactory: () => ({
+            metrics: { enabled: false },
+            tracing: { enabled: false },
+          }),
+        }),
+      ],
+    }).compile();
+
+    const observability = moduleRef.get(ObservabilityService);
+    observability.recordEvent('order.created');
+
+    expect(client.register.getMetricsAsArray()).toEqual([]);
+  });
+
+  it('registerAsync() should check the Pushgateway resolved by the factory', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        ObservabilityModule.registerAsync({
+          metrics: { enabled: false },
+          health: {},
+          useFactory: () => ({
+            metrics: { pushgateway: { url: 'http://127.0.0.1:1' } },
+            tracing: { enabled: false },
+          }),
+        }),
+      ],
+    }).compile();
+
+    const report = await moduleRef.get(HealthService).checkReadiness();
+    expect(report.checks.pushgateway).toBeDefined();
+  });
+});
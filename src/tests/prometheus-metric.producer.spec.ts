@@ -0,0 +1,128 @@
+import { ConfigService } from '@nestjs/config';
+import { metrics } from '@opentelemetry/api';
+import {
+  AggregationTemporality,
+  DataPointType,
+  InMemoryMetricExporter,
+  MeterProvider,
+} from '@opentelemetry/sdk-metrics';
+import * as client from 'prom-client';
+import { PrometheusMetricProducer } from '../lib/tracing/metrics';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+const mockMetricExporter = new InMemoryMetricExporter(
+  AggregationTemporality.CUMULATIVE,
+);
+jest.mock('@opentelemetry/exporter-metrics-otlp-http', () => ({
+  OTLPMetricExporter: jest.fn(() => mockMetricExporter),
+}));
+
+describe('PrometheusMetricProducer', () => {
+  const registry = new client.Registry();
+  const producer = new PrometheusMetricProducer([registry]);
+
+  beforeAll(() => {
+    new client.Counter({
+      name: 'orders_total',
+      help: 'Orders',
+      labelNames: ['status'],
+      registers: [registry],
+    }).inc({ status: 'paid' }, 2);
+    new client.Gauge({
+      name: 'queue_size',
+      help: 'Queue size',
+      registers: [registry],
+    }).set(7);
+
+    const histogram = new client.Histogram({
+      name: 'request_seconds',
+      help: 'Request duration',
+      buckets: [0.1, 1],
+      registers: [registry],
+    });
+    [0.05, 0.5, 3].forEach(value => histogram.observe(value));
+  });
+
+  const collect = async () => {
+    const { resourceMetrics, errors } = await producer.collect();
+    expect(errors).toEqual([]);
+    return resourceMetrics.scopeMetrics[0].metrics;
+  };
+
+  it('should convert counters and gauges', async () => {
+    const [counter, gauge] = await collect();
+
+    expect(counter).toMatchObject({
+      descriptor: { name: 'orders_total', description: 'Orders' },
+      dataPointType: DataPointType.SUM,
+      isMonotonic: true,
+      dataPoints: [{ attributes: { status: 'paid' }, value: 2 }],
+    });
+    expect(gauge).toMatchObject({
+      dataPointType: DataPointType.GAUGE,
+      dataPoints: [{ value: 7 }],
+    });
+  });
+
+  it('should convert cumulative buckets into per-bucket counts', async () => {
+    const histogram = (await collect())[2];
+
+    expect(histogram.dataPointType).toBe(DataPointType.HISTOGRAM);
+    expect(histogram.dataPoints[0].value).toEqual({
+      buckets: { boundaries: [0.1, 1], counts: [1, 1, 1] },
+      sum: 3.55,
+      count: 3,
+    });
+  });
+});
+
+describe('OTLP export of prom-client metrics', () => {
+  const registry = new client.Registry();
+  let tracingService: TracingService;
+
+  beforeAll(() => {
+    new client.Counter({
+      name: 'payments_total',
+      help: 'Payments',
+      registers: [registry],
+    }).inc(3);
+
+    tracingService = new TracingService(
+      new ConfigService({
+        tracing: {
+          enabled: true,
+          serviceName: 'payments',
+          exporter: 'console',
+          instrumentHttp: false,
+          instrumentDb: false,
+          instrumentMessaging: false,
+          metrics: {
+            enabled: true,
+            exportIntervalMillis: 60000,
+            registries: [registry],
+          },
+        },
+      }),
+    );
+  });
+
+  afterAll(async () => {
+    await tracingService.onApplicationShutdown();
+  });
+
+  it('should export the samples through the metric reader of the SDK', async () => {
+    await (metrics.getMeterProvider() as MeterProvider).forceFlush();
+
+    const [resourceMetrics] = mockMetricExporter.getMetrics();
+    expect(resourceMetrics.resource.attributes['service.name']).toBe(
+      'payments',
+    );
+    const exported = resourceMetrics.scopeMetrics
+      .reduce((all, scope) => all.concat(scope.metrics), [])
+      .find(metric => metric.descriptor.name === 'payments_total');
+    expect(exported).toMatchObject({
+      dataPointType: DataPointType.SUM,
+      dataPoints: [{ value: 3 }],
+    });
+  });
+});
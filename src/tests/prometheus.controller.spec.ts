@@ -0,0 +1,138 @@
+import { Controller, Get, INestApplication, Res } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { get, IncomingHttpHeaders } from 'http';
+import * as client from 'prom-client';
+import { gunzipSync } from 'zlib';
+import { PrometheusController, PrometheusModule } from '../lib/prometheus';
+
+const PROMETHEUS_ACCEPT =
+  'application/openmetrics-text;version=1.0.0,application/openmetrics-text;version=0.0.1;q=0.75,text/plain;version=0.0.4;q=0.5,*/*;q=0.1';
+
+@Controller()
+class LegacyController extends PrometheusController {
+  @Get()
+  index(@Res({ passthrough: true }) response: unknown) {
+    return super.index(response);
+  }
+}
+
+describe('PrometheusController', () => {
+  let app: INestApplication;
+  let baseUrl: string;
+
+  const createApp = async (
+    options: Parameters<typeof PrometheusModule.register>[0] = {},
+  ) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({
+          defaultMetrics: { enabled: false },
+          ...options,
+        }),
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    baseUrl = await app.getUrl();
+
+    new client.Counter({ name: 'orders_total', help: 'Orders' }).inc();
+  };
+
+  const scrape = (headers: Record<string, string>) =>
+    new Promise<{
+      status: number;
+      headers: IncomingHttpHeaders;
+      body: Buffer;
+    }>((resolve, reject) => {
+      // fetch always sends and decodes Accept-Encoding, so use http directly
+      get(`${baseUrl}/metrics`, { headers }, response => {
+        const chunks: Buffer[] = [];
+        response.on('data', (chunk: Buffer) => chunks.push(chunk));
+        response.on('end', () =>
+          resolve({
+            status: response.statusCode,
+            headers: response.headers,
+            body: Buffer.concat(chunks),
+          }),
+        );
+      }).on('error', reject);
+    });
+
+  afterEach(async () => {
+    await app.close();
+    client.register.clear();
+  });
+
+  it('should serve the Prometheus text format without an Accept header', async () => {
+    await createApp();
+
+    const response = await scrape({});
+
+    expect(response.status).toBe(200);
+    expect(response.headers['content-type']).toMatch(
+      /^text\/plain;.*version=0\.0\.4/,
+    );
+    expect(response.body.toString()).toContain('orders_total 1');
+  });
+
+  it('should prefer OpenMetrics when Prometheus asks for it', async () => {
+    await createApp();
+
+    const response = await scrape({ Accept: PROMETHEUS_ACCEPT });
+
+    expect(response.headers['content-type']).toMatch(
+      /^application\/openmetrics-text;.*version=1\.0\.0/,
+    );
+    expect(response.headers.vary).toContain('Accept');
+    expect(response.body.toString()).toMatch(/orders_total 1\n[\s\S]*# EOF\n$/);
+  });
+
+  it('should honor q-values', async () => {
+    await createApp();
+
+    const response = await scrape({
+      Accept:
+        'application/openmetrics-text;version=1.0.0;q=0.2,text/plain;version=0.0.4',
+    });
+
+    expect(response.headers['content-type']).toContain('text/plain');
+  });
+
+  it('should return 406 for unsupported types', async () => {
+    await createApp();
+
+    const response = await scrape({
+      Accept: 'application/json, text/plain;version=9.9.9',
+    });
+
+    expect(response.status).toBe(406);
+  });
+
+  it('should gzip large expositions when accepted', async () => {
+    await createApp({ compression: { enabled: true, threshold: 0 } });
+
+    const response = await scrape({ 'Accept-Encoding': 'gzip' });
+
+    expect(response.headers['content-encoding']).toBe('gzip');
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(gunzipSync(response.body).toString()).toContain('orders_total 1');
+  });
+
+  it('should not gzip below the threshold or when disabled', async () => {
+    await createApp({ compression: { enabled: false, threshold: 0 } });
+
+    const response = await scrape({ 'Accept-Encoding': 'gzip' });
+
+    expect(response.headers['content-encoding']).toBeUndefined();
+    expect(response.body.toString()).toContain('orders_total 1');
+  });
+
+  it('should negotiate in custom controllers that only pass the response', async () => {
+    await createApp({ controller: LegacyController });
+
+    const response = await scrape({ Accept: PROMETHEUS_ACCEPT });
+
+    expect(response.body.toString()).toMatch(/# EOF\n$/);
+  });
+});
@@ -0,0 +1,173 @@
+import { Injectable, Module } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  defineMetric,
+  InferMetric,
+  InjectMetric,
+  makeCounterProvider,
+  makeGaugeProvider,
+  PrometheusModule,
+} from '../lib/prometheus';
+
+const OrderValue = defineMetric({
+  type: 'histogram',
+  name: 'order_value',
+  help: 'Value of the orders',
+  labelNames: ['currency'] as const,
+  buckets: [10, 100],
+});
+
+const ordersTotal = makeCounterProvider({
+  name: 'orders_total',
+  help: 'Orders',
+  labelNames: ['channel'],
+});
+
+@Injectable()
+class OrdersService {
+  constructor(
+    @InjectMetric('orders_total') readonly orders: client.Counter<string>,
+    @InjectMetric(OrderValue)
+    readonly value: InferMetric<typeof OrderValue>,
+  ) {}
+}
+
+@Module({
+  imports: [PrometheusModule.forFeature([ordersTotal, OrderValue])],
+  providers: [OrdersService],
+})
+class OrdersModule {}
+
+describe('PrometheusModule.forFeature', () => {
+  afterEach(() => {
+    client.register.clear();
+  });
+
+  it('should fail without a root module', async () => {
+    await expect(
+      Test.createTestingModule({ imports: [OrdersModule] }).compile(),
+    ).rejects.toThrow('requires PrometheusModule.register()');
+  });
+
+  it('should only use the root options of its own application', async () => {
+    await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({ defaultMetrics: { enabled: false } }),
+        OrdersModule,
+      ],
+    }).compile();
+
+    await expect(
+      Test.createTestingModule({ imports: [OrdersModule] }).compile(),
+    ).rejects.toThrow('requires PrometheusModule.register()');
+  });
+
+  it('should fail instead of waiting when the root options cannot be resolved', async () => {
+    await expect(
+      Test.createTestingModule({
+        imports: [
+          OrdersModule,
+          PrometheusModule.registerAsync({
+            useFactory: async () => ({ server: { port: 0 } }),
+          }),
+        ],
+      }).compile(),
+    ).rejects.toThrow('server: true');
+  });
+
+  it('should create the metrics once the async root options are resolved', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        // Declared before the root module on purpose
+        OrdersModule,
+        PrometheusModule.registerAsync({
+          useFactory: async () => ({
+            customMetricPrefix: 'app',
+            defaultMetrics: { enabled: false },
+          }),
+        }),
+      ],
+    }).compile();
+
+    const service = moduleRef.get(OrdersService);
+    service.orders.inc({ channel: 'web' });
+    service.value.observe({ currency: 'EUR' }, 42);
+
+    const output = await client.register.metrics();
+    expect(output).toContain('app_orders_total{channel="web"} 1');
+    expect(output).toContain('app_order_value_count{currency="EUR"} 1');
+  });
+
+  it('should export the metrics and share identical declarations', async () => {
+    @Injectable()
+    class ReportsService {
+      constructor(
+        @InjectMetric('orders_total') readonly orders: client.Counter<string>,
+      ) {}
+    }
+
+    @Module({
+      imports: [PrometheusModule.forFeature([ordersTotal])],
+      providers: [ReportsService],
+    })
+    class ReportsModule {}
+
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({ defaultMetrics: { enabled: false } }),
+        OrdersModule,
+        ReportsModule,
+      ],
+    }).compile();
+
+    expect(moduleRef.get(ReportsService).orders).toBe(
+      moduleRef.get(OrdersService).orders,
+    );
+  });
+
+  it('should reject conflicting declarations in the same call', () => {
+    expect(() =>
+      PrometheusModule.forFeature([
+        ordersTotal,
+        makeGaugeProvider({ name: 'orders_total', help: 'Orders' }),
+      ]),
+    ).toThrow(
+      'Metric orders_total is already registered as a counter with labels [channel], which conflicts with the gauge with labels []',
+    );
+  });
+
+  it('should reject conflicting declarations across modules', async () => {
+    @Module({
+      imports: [
+        PrometheusModule.forFeature([
+          makeCounterProvider({
+            name: 'orders_total',
+            help: 'Orders',
+            labelNames: ['country'],
+          }),
+        ]),
+      ],
+    })
+    class LegacyOrdersModule {}
+
+    await expect(
+      Test.createTestingModule({
+        imports: [
+          PrometheusModule.register({
+            defaultMetrics: { enabled: false },
+            onMetricConflict: 'throw',
+          }),
+          OrdersModule,
+          LegacyOrdersModule,
+        ],
+      }).compile(),
+    ).rejects.toThrow(/Metric orders_total is already registered as a counter/);
+  });
+
+  it('should only accept metric providers', () => {
+    expect(() =>
+      PrometheusModule.forFeature([{ provide: 'x', useValue: 1 }]),
+    ).toThrow('only accepts metrics created with defineMetric()');
+  });
+});
@@ -0,0 +1,148 @@
+import { Controller, Get, INestApplication, Injectable } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  Counted,
+  InjectMetric,
+  makeCounterProvider,
+  PrometheusTestingModule,
+  PrometheusTestingService,
+  Timed,
+} from '../lib/prometheus';
+
+@Injectable()
+class TasksService {
+  constructor(
+    @InjectMetric('tasks_created_total')
+    private readonly created: client.Counter<string>,
+  ) {}
+
+  @Timed('task_processing_seconds', { buckets: [0.1, 1] })
+  @Counted('task_processing_total')
+  async process(priority: string) {
+    this.created.inc({ priority });
+  }
+}
+
+@Controller('tasks')
+class TasksController {
+  @Get()
+  findAll() {
+    return [];
+  }
+}
+
+describe('PrometheusTestingModule', () => {
+  let app: INestApplication;
+  let metrics: PrometheusTestingService;
+
+  beforeEach(async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusTestingModule.register({
+          customMetricPrefix: 'app',
+          httpMetrics: { enabled: true },
+        }),
+      ],
+      controllers: [TasksController],
+      providers: [
+        TasksService,
+        makeCounterProvider({
+          name: 'tasks_created_total',
+          help: 'Created tasks',
+          labelNames: ['priority'],
+        }),
+      ],
+    }).compile();
+
+    app = moduleRef.createNestApplication();
+    await app.listen(0);
+    metrics = app.get(PrometheusTestingService);
+  });
+
+  afterEach(async () => {
+    await app?.close();
+  });
+
+  it('should read the value of the matching series', async () => {
+    const tasks = app.get(TasksService);
+    await tasks.process('high');
+    await tasks.process('high');
+    await tasks.process('low');
+
+    expect(
+      await metrics.getMetricValue('tasks_created_total', { priority: 'high' }),
+    ).toBe(2);
+    expect(await metrics.getMetricValue('tasks_created_total')).toBe(3);
+    expect(
+      await metrics.getMetricValue('task_processing_total', {
+        outcome: 'error',
+      }),
+    ).toBe(0);
+    await metrics
+      .expectHistogram('task_processing_seconds', { outcome: 'success' })
+      .toHaveObservations(3);
+  });
+
+  it('should assert on the HTTP metrics', async () => {
+    await fetch(`${await app.getUrl()}/tasks`);
+
+    expect(
+      await metrics.getMetricValue('http_requests_total', { route: '/tasks' }),
+    ).toBe(1);
+    await metrics
+      .expectHistogram('http_request_duration_seconds', { route: '/tasks' })
+      .toHaveObservations(1);
+  });
+
+  it('should start each test with an empty isolated registry', async () => {
+    expect(await metrics.getMetricValue('tasks_created_total')).toBe(0);
+    expect(metrics.registry).not.toBe(client.register);
+    expect(metrics.registry.getSingleMetric('app_tasks_created_total')).toBe(
+      metrics.getMetric('tasks_created_total'),
+    );
+  });
+
+  it('should describe failed assertions', async () => {
+    await app.get(TasksService).process('high');
+
+    expect(() => metrics.getMetric('unknown_total')).toThrow(
+      'Metric app_unknown_total is not registered',
+    );
+    await expect(
+      metrics
+        .expectHistogram('task_processing_seconds', { outcome: 'success' })
+        .toHaveObservations(2),
+    ).rejects.toThrow(
+      'Expected app_task_processing_seconds{outcome="success"} to have 2 observations, got 1',
+    );
+  });
+
+  it('should reset the values of the metrics', async () => {
+    await app.get(TasksService).process('high');
+    metrics.reset();
+    await app.get(TasksService).process('high');
+
+    expect(await metrics.getMetricValue('tasks_created_total')).toBe(1);
+  });
+
+  it('should only clear its own registry when the module is closed', async () => {
+    const registry = metrics.registry;
+    const globalCounter = new client.Counter({
+      name: 'global_jobs_total',
+      help: 'Jobs',
+    });
+    await app.get(TasksService).process('high');
+    await app.close();
+    app = undefined;
+
+    try {
+      expect(registry.getMetricsAsArray()).toEqual([]);
+      expect(client.register.getSingleMetric('global_jobs_total')).toBe(
+        globalCounter,
+      );
+    } finally {
+      client.register.removeSingleMetric('global_jobs_total');
+    }
+  });
+});
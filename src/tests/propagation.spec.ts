@@ -0,0 +1,156 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { context, propagation, trace, TraceFlags } from '@opentelemetry/api';
+import {
+  InMemorySpanExporter,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { NodeTracerProvider } from '@opentelemetry/sdk-trace-node';
+import axios from 'axios';
+import {
+  BaggageSpanProcessor,
+  createPropagator,
+  registerAxiosTracing,
+} from '../lib/tracing/propagation';
+import { RedactionPolicy } from '../lib/tracing/redaction';
+import tracingConfig from '../lib/tracing/tracing.config';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+describe('context propagation', () => {
+  const spanContext = {
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    spanId: 'b7ad6b7169203331',
+    traceFlags: TraceFlags.SAMPLED,
+  };
+  const activeContext = trace.setSpanContext(context.active(), spanContext);
+  const tracingService = new TracingService(
+    new ConfigService({ tracing: { enabled: false } }),
+  );
+  const exporter = new InMemorySpanExporter();
+
+  beforeAll(() => {
+    // Registra el gestor de contexto y el propagador globales
+    const provider = new NodeTracerProvider();
+    provider.addSpanProcessor(
+      new BaggageSpanProcessor(
+        new SimpleSpanProcessor(exporter),
+        ['tenant.id'],
+        new RedactionPolicy(),
+      ),
+    );
+    provider.register({
+      propagator: createPropagator([
+        'tracecontext',
+        'baggage',
+        'b3multi',
+        'jaeger',
+      ]),
+    });
+  });
+
+  afterAll(() => {
+    trace.disable();
+    propagation.disable();
+    context.disable();
+  });
+
+  it('should inject every configured format', () => {
+    const headers = context.with(activeContext, () =>
+      tracingService.inject<Record<string, string>>({}),
+    );
+
+    expect(headers).toMatchObject({
+      traceparent: `00-${spanContext.traceId}-${spanContext.spanId}-01`,
+      'x-b3-traceid': spanContext.traceId,
+      'x-b3-spanid': spanContext.spanId,
+      'uber-trace-id': `${spanContext.traceId}:${spanContext.spanId}:0:01`,
+    });
+  });
+
+  it('should extract the remote span context from a carrier', () => {
+    const extracted = tracingService.extract({
+      'uber-trace-id': `${spanContext.traceId}:${spanContext.spanId}:0:01`,
+    });
+
+    expect(trace.getSpanContext(extracted)).toMatchObject({
+      traceId: spanContext.traceId,
+      spanId: spanContext.spanId,
+      isRemote: true,
+    });
+  });
+
+  it('should give precedence to the last configured format on extract', () => {
+    const extracted = tracingService.extract({
+      traceparent: `00-${spanContext.traceId}-00f067aa0ba902b7-01`,
+      'uber-trace-id': `${spanContext.traceId}:${spanContext.spanId}:0:01`,
+    });
+
+    expect(trace.getSpanContext(extracted).spanId).toBe(spanContext.spanId);
+  });
+
+  it('should inject the active context into Axios requests', async () => {
+    const instance = axios.create({
+      adapter: async config => ({
+        data: config.headers.toJSON(),
+        status: 200,
+        statusText: 'OK',
+        headers: {},
+        config,
+      }),
+    });
+    registerAxiosTracing(instance, tracingService);
+
+    const response = await context.with(activeContext, () =>
+      instance.get('http://orders.local/orders'),
+    );
+
+    expect(response.data.traceparent).toBe(
+      `00-${spanContext.traceId}-${spanContext.spanId}-01`,
+    );
+  });
+
+  it('should read and propagate baggage entries', () => {
+    const headers = tracingService.withBaggage(
+      { 'tenant.id': 'acme', 'user.id': '42' },
+      () => {
+        expect(tracingService.getBaggage('tenant.id')).toBe('acme');
+        expect(tracingService.getAllBaggage()).toEqual({
+          'tenant.id': 'acme',
+          'user.id': '42',
+        });
+        return tracingService.inject<Record<string, string>>({});
+      },
+    );
+
+    expect(headers.baggage).toBe('tenant.id=acme,user.id=42');
+  });
+
+  it('should copy the configured baggage keys onto new spans', () => {
+    tracingService.withBaggage({ 'tenant.id': 'acme', 'user.id': '42' }, () =>
+      trace.getTracer('test').startSpan('orders.create').end(),
+    );
+
+    const [span] = exporter.getFinishedSpans();
+    expect(span.attributes['tenant.id']).toBe('acme');
+    expect(span.attributes['user.id']).toBeUndefined();
+  });
+});
+
+describe('propagators config', () => {
+  afterEach(() => {
+    delete process.env.OTEL_PROPAGATORS;
+  });
+
+  it('should skip unknown OTEL_PROPAGATORS entries with a warning', () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    process.env.OTEL_PROPAGATORS = 'tracecontext, b3mutli,jaeger';
+
+    try {
+      expect(tracingConfig().propagators).toEqual(['tracecontext', 'jaeger']);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("'b3mutli'");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+});
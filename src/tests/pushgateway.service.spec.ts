@@ -0,0 +1,138 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { AddressInfo } from 'net';
+import { createServer, Server } from 'http';
+import * as client from 'prom-client';
+import {
+  PrometheusModule,
+  PrometheusPushgateway,
+  PushgatewayService,
+} from '../lib/prometheus';
+
+interface PushRequest {
+  method: string;
+  url: string;
+  body: string;
+}
+
+describe('PushgatewayService', () => {
+  let server: Server;
+  let url: string;
+  let requests: PushRequest[];
+  let statusCodes: number[];
+  let moduleRef: TestingModule;
+
+  beforeEach(async () => {
+    requests = [];
+    statusCodes = [];
+    server = createServer((request, response) => {
+      let body = '';
+      request.on('data', chunk => (body += chunk));
+      request.on('end', () => {
+        requests.push({ method: request.method, url: request.url, body });
+        response.statusCode = statusCodes.shift() ?? 200;
+        response.end();
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    url = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await moduleRef?.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  const createModule = async (
+    pushgateway: Omit<PrometheusPushgateway, 'url'>,
+  ) => {
+    const registry = new client.Registry();
+    new client.Counter({
+      name: 'jobs_processed_total',
+      help: 'Processed jobs',
+      registers: [registry],
+    }).inc(3);
+
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        PrometheusModule.register({
+          registry,
+          defaultMetrics: { enabled: false },
+          pushgateway: { url, ...pushgateway },
+        }),
+      ],
+    }).compile();
+    await moduleRef.init();
+    return moduleRef.get(PushgatewayService);
+  };
+
+  it('should pushAdd the module registry with the job name and groupings', async () => {
+    const service = await createModule({
+      jobName: 'batch',
+      groupings: { instance: 'worker-1' },
+    });
+
+    await service.pushNow();
+
+    expect(requests).toEqual([
+      {
+        method: 'POST',
+        url: '/metrics/job/batch/instance/worker-1',
+        body: expect.stringContaining('jobs_processed_total 3'),
+      },
+    ]);
+  });
+
+  it('should replace the group in push mode', async () => {
+    const service = await createModule({ mode: 'push' });
+
+    await service.pushNow();
+
+    expect(requests[0]).toMatchObject({
+      method: 'PUT',
+      url: '/metrics/job/nestjs',
+    });
+  });
+
+  it('should retry failed pushes with a backoff', async () => {
+    statusCodes = [500, 503];
+    const service = await createModule({ retry: { retries: 2, backoff: 10 } });
+
+    await service.pushNow();
+
+    expect(requests).toHaveLength(3);
+  });
+
+  it('should reject once every attempt failed', async () => {
+    statusCodes = [500, 500];
+    const service = await createModule({ retry: { retries: 1, backoff: 10 } });
+
+    await expect(service.pushNow()).rejects.toThrow('status 500');
+    expect(requests).toHaveLength(2);
+  });
+
+  it('should push on an interval', async () => {
+    await createModule({ interval: 20 });
+
+    await new Promise(resolve => setTimeout(resolve, 110));
+
+    expect(requests.length).toBeGreaterThanOrEqual(2);
+  });
+
+  it('should flush the metrics on shutdown', async () => {
+    await createModule({ pushOnShutdown: true });
+
+    await moduleRef.close();
+    moduleRef = undefined;
+
+    expect(requests).toHaveLength(1);
+  });
+
+  it('should not push on shutdown by default', async () => {
+    await createModule({});
+
+    await moduleRef.close();
+    moduleRef = undefined;
+
+    expect(requests).toHaveLength(0);
+  });
+});
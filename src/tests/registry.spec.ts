@@ -0,0 +1,148 @@
+import { Injectable, INestApplication, Logger } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import * as client from 'prom-client';
+import {
+  InjectMetric,
+  makeCounterProvider,
+  PrometheusModule,
+  PrometheusOptions,
+} from '../lib/prometheus';
+
+@Injectable()
+class OrdersService {
+  constructor(
+    @InjectMetric('orders_total') readonly counter: client.Counter<string>,
+  ) {}
+}
+
+describe('PrometheusOptions.registry', () => {
+  const apps: INestApplication[] = [];
+
+  const createApp = async (options: PrometheusOptions) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [PrometheusModule.register(options)],
+      providers: [
+        OrdersService,
+        makeCounterProvider({ name: 'orders_total', help: 'Orders' }),
+      ],
+    }).compile();
+
+    const app = moduleRef.createNestApplication();
+    await app.listen(0);
+    apps.push(app);
+    return app;
+  };
+
+  const scrape = async (app: INestApplication, accept?: string) => {
+    const response = await fetch(`${await app.getUrl()}/metrics`, {
+      headers: accept ? { Accept: accept } : {},
+    });
+    return { status: response.status, body: await response.text() };
+  };
+
+  afterEach(async () => {
+    await Promise.all(apps.splice(0).map(app => app.close()));
+    client.register.clear();
+  });
+
+  it('should keep the metrics of each module isolated', async () => {
+    const first = await createApp({
+      registry: new client.Registry(),
+      defaultMetrics: { enabled: false },
+      defaultLabels: { tenant: 'first' },
+    });
+    const second = await createApp({
+      registry: new client.Registry(),
+      defaultMetrics: { enabled: false },
+      defaultLabels: { tenant: 'second' },
+    });
+
+    first.get(OrdersService).counter.inc(2);
+    second.get(OrdersService).counter.inc();
+
+    expect((await scrape(first)).body).toContain(
+      'orders_total{tenant="first"} 2',
+    );
+    expect((await scrape(second)).body).toContain(
+      'orders_total{tenant="second"} 1',
+    );
+    expect(client.register.getSingleMetric('orders_total')).toBeUndefined();
+  });
+
+  it('should collect the default metrics in the configured registry', async () => {
+    const registry = new client.Registry();
+    await createApp({ registry, defaultMetrics: { enabled: true } });
+
+    expect(
+      registry.getSingleMetric('process_cpu_user_seconds_total'),
+    ).toBeDefined();
+    expect(
+      client.register.getSingleMetric('process_cpu_user_seconds_total'),
+    ).toBeUndefined();
+  });
+
+  it('should merge the additional registries on the metrics endpoint', async () => {
+    const tenant = new client.Registry();
+    tenant.setDefaultLabels({ tenant: 'acme' });
+    new client.Counter({
+      name: 'tenant_orders_total',
+      help: 'Tenant orders',
+      registers: [tenant],
+    }).inc();
+
+    const app = await createApp({
+      registry: new client.Registry(),
+      additionalRegistries: [tenant],
+      defaultMetrics: { enabled: false },
+    });
+    app.get(OrdersService).counter.inc();
+
+    const text = await scrape(app);
+    expect(text.body).toContain('orders_total 1');
+    expect(text.body).toContain('tenant_orders_total{tenant="acme"} 1');
+
+    const openMetrics = await scrape(app, 'application/openmetrics-text');
+    expect(openMetrics.body.match(/# EOF/g)).toHaveLength(1);
+    expect(openMetrics.body).toContain('tenant_orders_total{tenant="acme"} 1');
+    expect(openMetrics.body).toMatch(/# EOF\n$/);
+  });
+
+  it('should skip the metrics whose name is already served by another registry', async () => {
+    const warn = jest
+      .spyOn(Logger.prototype, 'warn')
+      .mockImplementation(() => undefined);
+    const tenant = new client.Registry();
+    new client.Counter({
+      name: 'orders_total',
+      help: 'Tenant orders',
+      registers: [tenant],
+    }).inc(5);
+    new client.Counter({
+      name: 'tenant_refunds_total',
+      help: 'Tenant refunds',
+      registers: [tenant],
+    }).inc();
+
+    const app = await createApp({
+      registry: new client.Registry(),
+      additionalRegistries: [tenant],
+      defaultMetrics: { enabled: false },
+    });
+    app.get(OrdersService).counter.inc();
+
+    const text = await scrape(app);
+    expect(text.status).toBe(200);
+    expect(text.body).toContain('orders_total 1');
+    expect(text.body).not.toContain('orders_total 5');
+    expect(text.body).not.toContain('Tenant orders');
+    expect(text.body).toContain('tenant_refunds_total 1');
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('orders_total'));
+
+    const openMetrics = await scrape(app, 'application/openmetrics-text');
+    expect(openMetrics.status).toBe(200);
+    expect(openMetrics.body).not.toContain('Tenant orders');
+    expect(openMetrics.body).toContain('tenant_refunds_total 1');
+
+    warn.mockRestore();
+  });
+});
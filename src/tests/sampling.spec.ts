@@ -0,0 +1,224 @@
+import {
+  ROOT_CONTEXT,
+  SpanKind,
+  SpanStatusCode,
+  TraceFlags,
+  trace,
+} from '@opentelemetry/api';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ParentBasedSampler,
+  SamplingDecision,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  DebugHeaderSampler,
+  RecordOnlySampler,
+  RuleBasedSampler,
+  SAMPLING_DEBUG_ATTRIBUTE,
+  TailSamplingSpanProcessor,
+} from '../lib/tracing/sampling';
+import tracingConfig from '../lib/tracing/tracing.config';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+describe('RuleBasedSampler', () => {
+  const sampler = new RuleBasedSampler({
+    defaultRatio: 1,
+    rules: [
+      { route: '/api/orders/*', ratio: 0 },
+      { spanName: 'Noisy.*', ratio: 0 },
+    ],
+    ignoredRoutes: ['/metrics*', '/health*'],
+  });
+
+  const decide = (spanName: string, attributes: Record<string, any>) =>
+    sampler.shouldSample(
+      ROOT_CONTEXT,
+      '0af7651916cd43dd8448eb211c80319c',
+      spanName,
+      SpanKind.SERVER,
+      attributes,
+      [],
+    ).decision;
+
+  it('should apply the first matching route or span name rule', () => {
+    expect(decide('GET', { 'http.target': '/api/orders/1?full=true' })).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+    expect(decide('Noisy.poll', {})).toBe(SamplingDecision.NOT_RECORD);
+    expect(decide('GET', { 'http.target': '/api/users' })).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+  });
+
+  it('should never sample ignored routes and always sample debug requests', () => {
+    expect(decide('GET', { 'http.route': '/health/ready' })).toBe(
+      SamplingDecision.NOT_RECORD,
+    );
+    expect(
+      decide('GET', {
+        'http.target': '/api/orders/1',
+        [SAMPLING_DEBUG_ATTRIBUTE]: true,
+      }),
+    ).toBe(SamplingDecision.RECORD_AND_SAMPLED);
+  });
+});
+
+describe('DebugHeaderSampler', () => {
+  const sampler = new DebugHeaderSampler(
+    new ParentBasedSampler({ root: new RuleBasedSampler({ defaultRatio: 1 }) }),
+  );
+  const unsampledRemoteParent = trace.setSpanContext(ROOT_CONTEXT, {
+    traceId: '0af7651916cd43dd8448eb211c80319c',
+    spanId: 'b7ad6b7169203331',
+    traceFlags: TraceFlags.NONE,
+    isRemote: true,
+  });
+
+  const decide = (attributes: Record<string, any>) =>
+    sampler.shouldSample(
+      unsampledRemoteParent,
+      '0af7651916cd43dd8448eb211c80319c',
+      'GET',
+      SpanKind.SERVER,
+      attributes,
+      [],
+    ).decision;
+
+  it('should sample debug requests even under an unsampled remote parent', () => {
+    expect(decide({ [SAMPLING_DEBUG_ATTRIBUTE]: true })).toBe(
+      SamplingDecision.RECORD_AND_SAMPLED,
+    );
+    expect(decide({})).toBe(SamplingDecision.NOT_RECORD);
+  });
+});
+
+describe('TailSamplingSpanProcessor', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider({
+    sampler: new ParentBasedSampler({
+      root: new RuleBasedSampler({ defaultRatio: 0, recordDropped: true }),
+      localParentNotSampled: new RecordOnlySampler(),
+    }),
+  });
+  provider.addSpanProcessor(
+    new TailSamplingSpanProcessor(new SimpleSpanProcessor(exporter), {
+      latencyThresholdMs: 60_000,
+    }),
+  );
+  const tracer = provider.getTracer('test');
+
+  afterEach(() => exporter.reset());
+
+  const runTrace = (failChild: boolean) => {
+    const root = tracer.startSpan('root');
+    const child = tracer.startSpan(
+      'child',
+      {},
+      trace.setSpan(ROOT_CONTEXT, root),
+    );
+    if (failChild) {
+      child.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    child.end();
+    root.end();
+  };
+
+  it('should keep dropped traces containing errors', () => {
+    runTrace(true);
+
+    expect(exporter.getFinishedSpans().map(span => span.name)).toEqual([
+      'child',
+      'root',
+    ]);
+  });
+
+  it('should discard dropped traces without errors under the latency threshold', () => {
+    runTrace(false);
+
+    expect(exporter.getFinishedSpans()).toHaveLength(0);
+  });
+
+  it('should expire buffered traces whose root span does not end in time', () => {
+    const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+    const expiringProvider = new BasicTracerProvider({
+      sampler: new RuleBasedSampler({ defaultRatio: 0, recordDropped: true }),
+    });
+    expiringProvider.addSpanProcessor(
+      new TailSamplingSpanProcessor(new SimpleSpanProcessor(exporter), {
+        maxTraceAgeMs: 1000,
+      }),
+    );
+    const expiringTracer = expiringProvider.getTracer('test');
+
+    try {
+      const stale = expiringTracer.startSpan('stale');
+      stale.setStatus({ code: SpanStatusCode.ERROR });
+
+      now.mockReturnValue(2000);
+      expiringTracer.startSpan('fresh');
+      stale.end();
+
+      expect(exporter.getFinishedSpans()).toHaveLength(0);
+    } finally {
+      now.mockRestore();
+    }
+  });
+});
+
+describe('sampling config', () => {
+  let warn: jest.SpyInstance;
+
+  beforeEach(() => {
+    warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+  });
+
+  afterEach(() => {
+    warn.mockRestore();
+    delete process.env.OTEL_SAMPLING_RULES;
+  });
+
+  const parseRules = (value: string) => {
+    process.env.OTEL_SAMPLING_RULES = value;
+    return tracingConfig().sampling.rules;
+  };
+
+  it('should warn about invalid OTEL_SAMPLING_RULES', () => {
+    expect(parseRules('[{"route":"/api/*",')).toEqual([]);
+    expect(parseRules('{"route":"/api/*","ratio":0.5}')).toEqual([]);
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[1][0]).toContain('debe ser un array');
+  });
+
+  it('should skip the rules without a ratio between 0 and 1', () => {
+    expect(
+      parseRules(
+        '[{"route":"/a","ratio":0.5},{"route":"/b","ratio":2},{"route":"/c","ratio":"1"}]',
+      ),
+    ).toEqual([{ route: '/a', ratio: 0.5 }]);
+
+    expect(warn).toHaveBeenCalledTimes(2);
+    expect(warn.mock.calls[0][0]).toContain('regla 1');
+  });
+
+  it('should merge the sampling options given in code with the environment', () => {
+    const tracingService = new TracingService(
+      new ConfigService({ tracing: tracingConfig() }),
+      { enabled: false, sampling: { rules: [{ route: '/a', ratio: 0.5 }] } },
+    );
+
+    expect(tracingService.getConfig().sampling).toMatchObject({
+      rules: [{ route: '/a', ratio: 0.5 }],
+      debugHeader: 'x-debug-trace',
+      ignoredRoutes: ['/metrics*', '/health*'],
+      tailSampling: { enabled: false },
+    });
+    expect(tracingService.getConfig().metrics).toMatchObject({
+      exportIntervalMillis: 15000,
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { context, propagation, trace, TraceFlags } from '@opentelemetry/api';
+import { AsyncHooksContextManager } from '@opentelemetry/context-async-hooks';
+import { StructuredLogger } from '../lib/logging/structured-logger.service';
+
+describe('StructuredLogger', () => {
+  let output: string[];
+  let stdout: jest.SpyInstance;
+  let stderr: jest.SpyInstance;
+
+  beforeAll(() => {
+    context.setGlobalContextManager(new AsyncHooksContextManager().enable());
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  beforeEach(() => {
+    output = [];
+    const capture = (chunk: string) => {
+      output.push(chunk);
+      return true;
+    };
+    stdout = jest.spyOn(process.stdout, 'write').mockImplementation(capture);
+    stderr = jest.spyOn(process.stderr, 'write').mockImplementation(capture);
+  });
+
+  afterEach(() => {
+    stdout.mockRestore();
+    stderr.mockRestore();
+  });
+
+  const createLogger = () =>
+    new StructuredLogger(undefined, undefined, {
+      level: 'log',
+      format: 'json',
+      includeTraceContext: true,
+      serviceName: 'orders',
+      environment: 'test',
+      baggageKeys: ['tenant.id'],
+    });
+
+  it('should write JSON lines with service metadata and context', () => {
+    createLogger().log('order created', 'OrdersService');
+
+    expect(JSON.parse(output[0])).toMatchObject({
+      level: 'info',
+      message: 'order created',
+      context: 'OrdersService',
+      'service.name': 'orders',
+      'deployment.environment': 'test',
+    });
+  });
+
+  it('should add trace_id and span_id from the active span', () => {
+    const spanContext = {
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: TraceFlags.SAMPLED,
+    };
+    const ctx = trace.setSpanContext(context.active(), spanContext);
+
+    context.with(ctx, () => createLogger().warn('slow query'));
+
+    expect(JSON.parse(output[0])).toMatchObject({
+      level: 'warn',
+      trace_id: spanContext.traceId,
+      span_id: spanContext.spanId,
+    });
+  });
+
+  it('should filter out levels below the configured one', () => {
+    const logger = createLogger();
+    logger.debug('hidden');
+    logger.error('visible', 'stack trace', 'OrdersService');
+
+    expect(output).toHaveLength(1);
+    expect(JSON.parse(output[0])).toMatchObject({
+      level: 'error',
+      stack: 'stack trace',
+      context: 'OrdersService',
+    });
+  });
+
+  it('should add the configured baggage entries', () => {
+    const ctx = propagation.setBaggage(
+      context.active(),
+      propagation.createBaggage({
+        'tenant.id': { value: 'acme' },
+        'user.id': { value: '42' },
+      }),
+    );
+
+    context.with(ctx, () => createLogger().log('order created'));
+
+    const record = JSON.parse(output[0]);
+    expect(record['tenant.id']).toBe('acme');
+    expect(record['user.id']).toBeUndefined();
+  });
+
+  it('should redact the baggage entries like the span attributes', () => {
+    const ctx = propagation.setBaggage(
+      context.active(),
+      propagation.createBaggage({
+        'session.token': { value: 'abc123' },
+        'user.email': { value: 'ana@example.com' },
+      }),
+    );
+    const logger = new StructuredLogger(undefined, undefined, {
+      format: 'json',
+      baggageKeys: ['session.token', 'user.email'],
+    });
+
+    context.with(ctx, () => logger.log('order created'));
+
+    const record = JSON.parse(output[0]);
+    expect(record['session.token']).toBe('[REDACTED]');
+    expect(record['user.email']).not.toContain('ana@example.com');
+  });
+
+  it('should not let an object message overwrite the reserved fields', () => {
+    const spanContext = {
+      traceId: '0af7651916cd43dd8448eb211c80319c',
+      spanId: 'b7ad6b7169203331',
+      traceFlags: TraceFlags.SAMPLED,
+    };
+    const ctx = trace.setSpanContext(context.active(), spanContext);
+
+    context.with(ctx, () =>
+      createLogger().log(
+        {
+          message: 'order created',
+          orderId: '42',
+          timestamp: 'yesterday',
+          level: 'debug',
+          context: 'Other',
+          trace_id: 'forged',
+          span_id: 'forged',
+        },
+        'OrdersService',
+      ),
+    );
+
+    const line = output[0];
+    expect(Object.keys(JSON.parse(line)).slice(0, 2)).toEqual([
+      'timestamp',
+      'level',
+    ]);
+    expect(JSON.parse(line)).toMatchObject({
+      message: 'order created',
+      orderId: '42',
+      level: 'info',
+      context: 'OrdersService',
+      trace_id: spanContext.traceId,
+      span_id: spanContext.spanId,
+    });
+    expect(JSON.parse(line).timestamp).not.toBe('yesterday');
+  });
+});
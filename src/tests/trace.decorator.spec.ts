@@ -0,0 +1,223 @@
+import { Injectable, Module, OnModuleInit, Scope } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { lastValueFrom, Observable, of, throwError } from 'rxjs';
+import { Trace } from '../lib/tracing/decorators';
+import {
+  TracingTestingModule,
+  TracingTestingService,
+} from '../lib/tracing/testing';
+import { TracingModule } from '../lib/tracing/tracing.module';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+@Injectable()
+class BaseRepository {
+  @Trace()
+  async findAll() {
+    return ['a', 'b'];
+  }
+}
+
+@Injectable()
+class OrdersRepository extends BaseRepository {}
+
+@Injectable()
+class UsersRepository extends BaseRepository {}
+
+@Injectable()
+class TasksService {
+  @Trace()
+  count() {
+    return 3;
+  }
+
+  @Trace()
+  watch(): Observable<string[]> {
+    return new Observable(subscriber => {
+      setTimeout(() => {
+        subscriber.next(['a']);
+        subscriber.complete();
+      }, 5);
+    });
+  }
+
+  @Trace()
+  fail(): Observable<never> {
+    return throwError(() => new Error('timeout'));
+  }
+
+  @Trace()
+  list() {
+    return of(['a', 'b']);
+  }
+}
+
+describe('@Trace', () => {
+  let moduleRef: TestingModule;
+  let traceSpy: jest.SpyInstance;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [
+        TracingModule.forRootAsync({ useFactory: () => ({ enabled: false }) }),
+      ],
+      providers: [OrdersRepository, UsersRepository],
+    }).compile();
+    await moduleRef.init();
+
+    traceSpy = jest.spyOn(moduleRef.get(TracingService), 'createSpan');
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('should resolve the TracingService without a companion decorator', async () => {
+    await expect(moduleRef.get(OrdersRepository).findAll()).resolves.toEqual([
+      'a',
+      'b',
+    ]);
+    expect(traceSpy).toHaveBeenCalledTimes(1);
+  });
+
+  it('should name spans after the concrete class sharing the prototype chain', async () => {
+    await moduleRef.get(OrdersRepository).findAll();
+    await moduleRef.get(UsersRepository).findAll();
+
+    expect(traceSpy.mock.calls.map(([name]) => name)).toEqual([
+      'OrdersRepository.findAll',
+      'UsersRepository.findAll',
+    ]);
+  });
+
+  it('should keep the original method name', () => {
+    expect(BaseRepository.prototype.findAll.name).toBe('findAll');
+  });
+});
+
+@Injectable({ scope: Scope.REQUEST })
+class ReportsService {
+  @Trace()
+  build() {
+    return 'report';
+  }
+}
+
+@Injectable()
+class WarmupService implements OnModuleInit {
+  constructor(private readonly tasks: TasksService) {}
+
+  onModuleInit() {
+    this.tasks.count();
+  }
+}
+
+@Module({ providers: [TasksService, WarmupService] })
+class WarmupModule {}
+
+describe('@Trace registration', () => {
+  const createModule = async (...providers: any[]) => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [TracingTestingModule.forRoot()],
+      providers,
+    }).compile();
+    await moduleRef.init();
+    return moduleRef;
+  };
+
+  it('should trace the calls made from the onModuleInit of other modules', async () => {
+    const moduleRef = await Test.createTestingModule({
+      imports: [TracingTestingModule.forRoot(), WarmupModule],
+    }).compile();
+    await moduleRef.init();
+
+    expect(
+      moduleRef
+        .get(TracingTestingService)
+        .getFinishedSpans('TasksService.count'),
+    ).toHaveLength(1);
+    await moduleRef.close();
+  });
+
+  it('should keep the spans of each application apart', async () => {
+    const first = await createModule(TasksService);
+    const second = await createModule(TasksService);
+
+    first.get(TasksService).count();
+    second.get(TasksService).count();
+    second.get(TasksService).count();
+
+    expect(
+      first.get(TracingTestingService).getFinishedSpans('TasksService.count'),
+    ).toHaveLength(1);
+    expect(
+      second.get(TracingTestingService).getFinishedSpans('TasksService.count'),
+    ).toHaveLength(2);
+    await Promise.all([first.close(), second.close()]);
+  });
+
+  it('should trace request-scoped providers', async () => {
+    const moduleRef = await createModule(ReportsService);
+
+    (await moduleRef.resolve(ReportsService)).build();
+
+    moduleRef.get(TracingTestingService).expectSpan('ReportsService.build');
+    await moduleRef.close();
+  });
+
+  it('should not trace instances created outside the container', () => {
+    expect(new TasksService().count()).toBe(3);
+  });
+});
+
+describe('@Trace return values', () => {
+  let moduleRef: TestingModule;
+  let tasks: TasksService;
+  let spans: TracingTestingService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [TracingTestingModule.forRoot()],
+      providers: [TasksService],
+    }).compile();
+    await moduleRef.init();
+
+    tasks = moduleRef.get(TasksService);
+    spans = moduleRef.get(TracingTestingService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('should keep synchronous methods synchronous', () => {
+    expect(tasks.count()).toBe(3);
+    expect(spans.getFinishedSpans('TasksService.count')).toHaveLength(1);
+  });
+
+  it('should end the span of an Observable when the stream completes', async () => {
+    const result = tasks.watch();
+
+    expect(result).toBeInstanceOf(Observable);
+    expect(spans.getFinishedSpans('TasksService.watch')).toHaveLength(0);
+    await expect(lastValueFrom(result)).resolves.toEqual(['a']);
+    spans
+      .expectSpan('TasksService.watch')
+      .toHaveAttribute('result.type', 'array');
+  });
+
+  it('should create one span per subscription', async () => {
+    const result = tasks.list();
+
+    await lastValueFrom(result);
+    await lastValueFrom(result);
+
+    expect(spans.getFinishedSpans('TasksService.list')).toHaveLength(2);
+  });
+
+  it('should mark the span of a failing Observable as an error', async () => {
+    await expect(lastValueFrom(tasks.fail())).rejects.toThrow('timeout');
+
+    spans.expectSpan('TasksService.fail').toHaveStatus(SpanStatusCode.ERROR);
+  });
+});
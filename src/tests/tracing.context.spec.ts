@@ -0,0 +1,104 @@
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { context } from '@opentelemetry/api';
+import { AsyncLocalStorageContextManager } from '@opentelemetry/context-async-hooks';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { defer, lastValueFrom } from 'rxjs';
+import { TracingInterceptor } from '../lib/tracing/interceptors';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+class OrdersController {
+  findOne() {}
+}
+
+describe('TracingService context propagation', () => {
+  const exporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(exporter));
+  const tracingService = new TracingService(
+    new ConfigService({ tracing: { enabled: true, instrumentations: [] } }),
+    undefined,
+    provider,
+  );
+
+  const getSpan = (name: string): ReadableSpan =>
+    exporter.getFinishedSpans().find(span => span.name === name);
+
+  const expectChildOf = (child: ReadableSpan, parent: ReadableSpan) => {
+    expect(child.spanContext().traceId).toBe(parent.spanContext().traceId);
+    expect(child.parentSpanId).toBe(parent.spanContext().spanId);
+  };
+
+  beforeAll(() => {
+    context.setGlobalContextManager(
+      new AsyncLocalStorageContextManager().enable(),
+    );
+  });
+
+  afterAll(() => {
+    context.disable();
+  });
+
+  afterEach(() => {
+    exporter.reset();
+  });
+
+  it('trace() should run nested calls as children of the active span', async () => {
+    await tracingService.trace('orders.process', async () => {
+      await tracingService.trace('orders.validate', async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        await tracingService.trace('orders.validate.stock', () => true);
+      });
+      await tracingService.trace('orders.save', () => true);
+    });
+
+    const process = getSpan('orders.process');
+    const validate = getSpan('orders.validate');
+    expect(process.parentSpanId).toBeUndefined();
+    expectChildOf(validate, process);
+    expectChildOf(getSpan('orders.validate.stock'), validate);
+    expectChildOf(getSpan('orders.save'), process);
+  });
+
+  it('should run the intercepted handler inside the span of the request', async () => {
+    const interceptor = new TracingInterceptor(tracingService);
+    const executionContext = new ExecutionContextHost(
+      [
+        {
+          method: 'GET',
+          url: '/orders/1',
+          route: { path: '/orders/:id' },
+          headers: {},
+        },
+        { statusCode: 200 },
+      ],
+      OrdersController,
+      OrdersController.prototype.findOne,
+    );
+    executionContext.setType('http');
+
+    await lastValueFrom(
+      interceptor.intercept(executionContext, {
+        handle: () =>
+          defer(() =>
+            tracingService.trace('OrdersService.findOne', async () => {
+              await new Promise(resolve => setTimeout(resolve, 1));
+              return tracingService.trace('OrdersRepository.findOne', () => ({
+                id: '1',
+              }));
+            }),
+          ),
+      }),
+    );
+
+    const request = getSpan('HTTP GET /orders/:id');
+    const service = getSpan('OrdersService.findOne');
+    expectChildOf(service, request);
+    expectChildOf(getSpan('OrdersRepository.findOne'), service);
+  });
+});
@@ -0,0 +1,219 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { ROOT_CONTEXT, SpanStatusCode, trace } from '@opentelemetry/api';
+import { ExportResult, ExportResultCode } from '@opentelemetry/core';
+import {
+  BasicTracerProvider,
+  InMemorySpanExporter,
+  ReadableSpan,
+  SimpleSpanProcessor,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-base';
+import { mkdtempSync, readdirSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  ConsoleTreeSpanExporter,
+  FanOutSpanProcessor,
+  FileSpanExporter,
+} from '../lib/tracing/exporters';
+import tracingConfig, { TracingConfig } from '../lib/tracing/tracing.config';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+describe('span exporters', () => {
+  const memoryExporter = new InMemorySpanExporter();
+  const provider = new BasicTracerProvider();
+  provider.addSpanProcessor(new SimpleSpanProcessor(memoryExporter));
+  const tracer = provider.getTracer('test');
+  let directory: string;
+
+  /**
+   * Crea una traza GET /tasks con dos hijos, el segundo con error
+   */
+  const createTrace = (): ReadableSpan[] => {
+    const start = Date.now();
+    const root = tracer.startSpan('GET /tasks', { startTime: start });
+    const parentContext = trace.setSpan(ROOT_CONTEXT, root);
+    tracer
+      .startSpan(
+        'TasksService.findAll',
+        { startTime: start + 1 },
+        parentContext,
+      )
+      .end(start + 11);
+    const count = tracer.startSpan(
+      'TasksService.count',
+      { startTime: start + 2 },
+      parentContext,
+    );
+    count.setStatus({ code: SpanStatusCode.ERROR, message: 'timeout' });
+    count.end(start + 4);
+    root.end(start + 12);
+
+    return memoryExporter.getFinishedSpans();
+  };
+
+  const exportSpans = (
+    exporter: { export: ConsoleTreeSpanExporter['export'] },
+    spans: ReadableSpan[],
+  ) => new Promise<ExportResult>(resolve => exporter.export(spans, resolve));
+
+  beforeEach(() => {
+    directory = mkdtempSync(join(tmpdir(), 'spans-'));
+  });
+
+  afterEach(() => {
+    memoryExporter.reset();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should print the spans of each trace as a tree', async () => {
+    const lines: string[] = [];
+    const spans = createTrace();
+
+    const result = await exportSpans(
+      new ConsoleTreeSpanExporter(line => lines.push(line)),
+      spans,
+    );
+
+    expect(result.code).toBe(ExportResultCode.SUCCESS);
+    expect(lines).toEqual([
+      `Traza ${spans[0].spanContext().traceId}`,
+      '└─ GET /tasks 12.0ms',
+      '   ├─ TasksService.findAll 10.0ms',
+      '   └─ TasksService.count 2.0ms [ERROR: timeout]',
+    ]);
+  });
+
+  it('should append the spans to an NDJSON file', async () => {
+    const path = join(directory, 'nested', 'spans.ndjson');
+    const exporter = new FileSpanExporter({ path });
+
+    await exportSpans(exporter, createTrace());
+    await exporter.forceFlush();
+
+    const lines = readFileSync(path, 'utf8')
+      .trim()
+      .split('\n')
+      .map(line => JSON.parse(line));
+    expect(lines).toHaveLength(3);
+    expect(lines[1]).toMatchObject({
+      name: 'TasksService.count',
+      kind: 'INTERNAL',
+      durationMs: 2,
+      status: { code: SpanStatusCode.ERROR, message: 'timeout' },
+      parentSpanId: lines[2].spanId,
+    });
+  });
+
+  it('should rotate the file past the maximum size', async () => {
+    const path = join(directory, 'spans.ndjson');
+    const exporter = new FileSpanExporter({
+      path,
+      maxFileSize: 500,
+      maxFiles: 2,
+    });
+    const spans = createTrace();
+
+    for (let index = 0; index < 5; index++) {
+      await exportSpans(exporter, [spans[0]]);
+    }
+
+    expect(readdirSync(directory).sort()).toEqual([
+      'spans.ndjson',
+      'spans.ndjson.1',
+      'spans.ndjson.2',
+    ]);
+    readdirSync(directory).forEach(file =>
+      expect(
+        readFileSync(join(directory, file), 'utf8').length,
+      ).toBeLessThanOrEqual(500),
+    );
+  });
+
+  it('should fan out the spans to one batch processor per exporter', async () => {
+    const tracingService = new TracingService(
+      new ConfigService({ tracing: { enabled: false } }),
+    );
+    const config = {
+      exporter: 'otlp',
+      exporters: [
+        { type: 'file', path: join(directory, 'a.ndjson') },
+        {
+          type: 'file',
+          path: join(directory, 'b.ndjson'),
+          batch: { maxExportBatchSize: 1 },
+        },
+      ],
+    } as TracingConfig;
+
+    const processor: SpanProcessor =
+      tracingService['createSpanProcessor'](config);
+    expect(processor).toBeInstanceOf(FanOutSpanProcessor);
+
+    const fanOutProvider = new BasicTracerProvider();
+    fanOutProvider.addSpanProcessor(processor);
+    fanOutProvider.getTracer('test').startSpan('tasks.findAll').end();
+    await fanOutProvider.forceFlush();
+
+    expect(readFileSync(join(directory, 'a.ndjson'), 'utf8')).toContain(
+      '"name":"tasks.findAll"',
+    );
+    expect(readFileSync(join(directory, 'b.ndjson'), 'utf8')).toContain(
+      '"name":"tasks.findAll"',
+    );
+    expect(tracingService.getExportStatus()).toMatchObject({
+      success: true,
+      spans: 1,
+      exporter: 'file',
+    });
+    await fanOutProvider.shutdown();
+  });
+});
+
+describe('exporters config', () => {
+  afterEach(() => {
+    delete process.env.OTEL_EXPORTERS;
+  });
+
+  it('should skip unknown OTEL_EXPORTERS entries with a warning', () => {
+    const warn = jest.spyOn(Logger.prototype, 'warn').mockImplementation();
+    process.env.OTEL_EXPORTERS = 'otlp,jaegr, console';
+
+    try {
+      expect(tracingConfig().exporters).toEqual([
+        { type: 'otlp' },
+        { type: 'console' },
+      ]);
+      expect(warn).toHaveBeenCalledTimes(1);
+      expect(warn.mock.calls[0][0]).toContain("'jaegr'");
+    } finally {
+      warn.mockRestore();
+    }
+  });
+
+  it('should log the exporters in use at startup', async () => {
+    const log = jest.spyOn(Logger.prototype, 'log').mockImplementation();
+    const tracingService = new TracingService(
+      new ConfigService({
+        tracing: {
+          enabled: true,
+          exporter: 'otlp',
+          exporters: [{ type: 'console' }],
+          instrumentHttp: false,
+          instrumentDb: false,
+          instrumentMessaging: false,
+        },
+      }),
+    );
+
+    try {
+      expect(log).toHaveBeenCalledWith(
+        'Inicializando OpenTelemetry con exportadores: console',
+      );
+    } finally {
+      await tracingService.onApplicationShutdown();
+      log.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,117 @@
+import { ConfigService } from '@nestjs/config';
+import { ExecutionContextHost } from '@nestjs/core/helpers/execution-context-host';
+import { SpanKind } from '@opentelemetry/api';
+import { lastValueFrom, of } from 'rxjs';
+import { TracingInterceptor } from '../lib/tracing/interceptors';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+class OrdersHandler {
+  handle() {}
+}
+
+class KafkaContext {
+  getTopic() {
+    return 'orders.created';
+  }
+  getPartition() {
+    return 3;
+  }
+}
+
+describe('TracingInterceptor', () => {
+  const tracingService = new TracingService(
+    new ConfigService({ tracing: { enabled: false } }),
+  );
+  const interceptor = new TracingInterceptor(tracingService);
+  let createSpan: jest.SpyInstance;
+
+  beforeEach(() => {
+    createSpan = jest.spyOn(tracingService, 'createSpan');
+  });
+
+  afterEach(() => {
+    createSpan.mockRestore();
+  });
+
+  const intercept = async (type: string, args: any[]) => {
+    const context = new ExecutionContextHost(
+      args,
+      OrdersHandler,
+      OrdersHandler.prototype.handle,
+    );
+    context.setType(type);
+    await lastValueFrom(interceptor.intercept(context, { handle: () => of('ok') }));
+
+    const [name, attributes, options] = createSpan.mock.calls[0];
+    return { name, attributes, kind: options.kind };
+  };
+
+  it('should describe HTTP requests', async () => {
+    const span = await intercept('http', [
+      {
+        method: 'GET',
+        url: '/orders/1',
+        route: { path: '/orders/:id' },
+        params: { id: '1' },
+        headers: {},
+      },
+      { statusCode: 200 },
+    ]);
+
+    expect(span.name).toBe('HTTP GET /orders/:id');
+    expect(span.kind).toBe(SpanKind.SERVER);
+    expect(span.attributes).toMatchObject({
+      'http.route': '/orders/:id',
+      'request.params': { id: '1' },
+      'nestjs.type': 'http',
+    });
+  });
+
+  it('should name GraphQL spans after the operation', async () => {
+    const span = await intercept('graphql', [
+      undefined,
+      { id: '1' },
+      {},
+      {
+        fieldName: 'order',
+        parentType: { name: 'Query' },
+        operation: { operation: 'query', name: { value: 'GetOrder' } },
+      },
+    ]);
+
+    expect(span.name).toBe('GraphQL query GetOrder');
+    expect(span.attributes).toMatchObject({
+      'graphql.operation.type': 'query',
+      'graphql.operation.name': 'GetOrder',
+      'graphql.field.name': 'order',
+    });
+  });
+
+  it('should describe RPC messages as consumer spans', async () => {
+    const span = await intercept('rpc', [{ id: 1 }, new KafkaContext()]);
+
+    expect(span.name).toBe('RPC orders.created');
+    expect(span.kind).toBe(SpanKind.CONSUMER);
+    expect(span.attributes).toMatchObject({
+      'messaging.system': 'kafka',
+      'messaging.destination': 'orders.created',
+      'messaging.operation': 'process',
+      'messaging.kafka.partition': 3,
+    });
+  });
+
+  it('should describe WebSocket events with the client id', async () => {
+    const span = await intercept('ws', [
+      { id: 'client-1' },
+      { text: 'hi' },
+      'chat.message',
+    ]);
+
+    expect(span.name).toBe('WS chat.message');
+    expect(span.attributes).toMatchObject({
+      'messaging.system': 'websocket',
+      'messaging.destination': 'chat.message',
+      'messaging.consumer_id': 'client-1',
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable } from '@nestjs/common';
+import { Test, TestingModule } from '@nestjs/testing';
+import { SpanStatusCode } from '@opentelemetry/api';
+import { Trace } from '../lib/tracing/decorators';
+import {
+  TracingTestingModule,
+  TracingTestingService,
+} from '../lib/tracing/testing';
+import { TracingService } from '../lib/tracing/tracing.service';
+
+@Injectable()
+class TasksRepository {
+  @Trace()
+  async findAll() {
+    return ['a', 'b'];
+  }
+}
+
+@Injectable()
+class TasksService {
+  constructor(
+    private readonly repository: TasksRepository,
+    private readonly tracingService: TracingService,
+  ) {}
+
+  @Trace('tasks.findAll')
+  async findAll() {
+    const tasks = await this.repository.findAll();
+    this.tracingService
+      .createSpan('tasks.count', { 'tasks.count': tasks.length })
+      .end();
+    return tasks;
+  }
+
+  @Trace('tasks.fail')
+  async fail() {
+    throw new Error('boom');
+  }
+}
+
+describe('TracingTestingModule', () => {
+  let moduleRef: TestingModule;
+  let spans: TracingTestingService;
+
+  beforeEach(async () => {
+    moduleRef = await Test.createTestingModule({
+      imports: [TracingTestingModule.forRoot({ serviceName: 'tasks' })],
+      providers: [TasksService, TasksRepository],
+    }).compile();
+    await moduleRef.init();
+
+    spans = moduleRef.get(TracingTestingService);
+  });
+
+  afterEach(async () => {
+    await moduleRef.close();
+  });
+
+  it('should record the spans of @Trace in memory', async () => {
+    await moduleRef.get(TasksService).findAll();
+
+    expect(spans.getFinishedSpans().map(span => span.name)).toEqual([
+      'TasksRepository.findAll',
+      'tasks.count',
+      'tasks.findAll',
+    ]);
+    spans
+      .expectSpan('tasks.findAll')
+      .toHaveAttribute('service.name', 'tasks')
+      .toHaveAttribute('operation.success', true)
+      .toHaveStatus(SpanStatusCode.OK);
+    spans.expectSpan('TasksRepository.findAll').toBeChildOf('tasks.findAll');
+    spans.expectSpan('tasks.count').toHaveAttribute('tasks.count', 2);
+  });
+
+  it('should start from an empty exporter in each test', () => {
+    expect(spans.getFinishedSpans()).toEqual([]);
+  });
+
+  it('should apply the redaction policy', () => {
+    moduleRef
+      .get(TracingService)
+      .createSpan('login', { 'user.password': 'secret' })
+      .end();
+
+    expect(
+      spans.getFinishedSpans('login')[0].attributes['user.password'],
+    ).not.toBe('secret');
+  });
+
+  it('should describe failed assertions', async () => {
+    await moduleRef.get(TasksService).findAll();
+    await expect(moduleRef.get(TasksService).fail()).rejects.toThrow('boom');
+
+    expect(() => spans.expectSpan('tasks.unknown')).toThrow(
+      "No se encontró ningún span 'tasks.unknown'. Spans finalizados: 'TasksRepository.findAll', 'tasks.count', 'tasks.findAll', 'tasks.fail'",
+    );
+    expect(() =>
+      spans.expectSpan('tasks.findAll').toHaveAttribute('tasks.count'),
+    ).toThrow("El span 'tasks.findAll' no tiene el atributo 'tasks.count'");
+    expect(() =>
+      spans.expectSpan('tasks.count').toHaveAttribute('tasks.count', 3),
+    ).toThrow("El atributo 'tasks.count' del span 'tasks.count' vale 2");
+    expect(() =>
+      spans.expectSpan('tasks.fail').toBeChildOf('tasks.findAll'),
+    ).toThrow(
+      "El span 'tasks.fail' no es hijo de 'tasks.findAll' (padre: ninguno)",
+    );
+    spans.expectSpan('tasks.fail').toHaveStatus(SpanStatusCode.ERROR);
+  });
+
+  it('should discard the spans on reset', async () => {
+    await moduleRef.get(TasksService).findAll();
+    spans.reset();
+
+    expect(spans.getFinishedSpans()).toEqual([]);
+  });
+});